@@ -1,7 +1,8 @@
 import type { ChangeEvent, DragEvent } from 'react'
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useEffect, useEffectEvent, useMemo, useRef, useState } from 'react'
 import Konva from 'konva'
-import { Layer, Rect, Stage, Image as KonvaImage, Text as KonvaText } from 'react-konva'
+import type { KonvaEventObject } from 'konva/lib/Node'
+import { Group, Layer, Rect, Stage, Image as KonvaImage, Text as KonvaText } from 'react-konva'
 import {
   Alert,
   Backdrop,
@@ -11,8 +12,10 @@ import {
   Divider,
   Fab,
   IconButton,
+  InputAdornment,
   LinearProgress,
   Link,
+  MenuItem,
   Paper,
   Slider,
   Snackbar,
@@ -25,12 +28,101 @@ import {
   Typography,
 } from '@mui/material'
 import AddPhotoAlternateRoundedIcon from '@mui/icons-material/AddPhotoAlternateRounded'
+import AutoAwesomeRoundedIcon from '@mui/icons-material/AutoAwesomeRounded'
+import DeleteOutlineRoundedIcon from '@mui/icons-material/DeleteOutlineRounded'
 import DownloadRoundedIcon from '@mui/icons-material/DownloadRounded'
+import DriveFolderUploadRoundedIcon from '@mui/icons-material/DriveFolderUploadRounded'
+import FolderOpenRoundedIcon from '@mui/icons-material/FolderOpenRounded'
+import HistoryRoundedIcon from '@mui/icons-material/HistoryRounded'
+import PhotoLibraryRoundedIcon from '@mui/icons-material/PhotoLibraryRounded'
+import RedoRoundedIcon from '@mui/icons-material/RedoRounded'
 import RestartAltRoundedIcon from '@mui/icons-material/RestartAltRounded'
-import { format } from 'date-fns'
+import SaveRoundedIcon from '@mui/icons-material/SaveRounded'
+import ShuffleRoundedIcon from '@mui/icons-material/ShuffleRounded'
+import StarBorderRoundedIcon from '@mui/icons-material/StarBorderRounded'
+import StarRoundedIcon from '@mui/icons-material/StarRounded'
+import SwapVertRoundedIcon from '@mui/icons-material/SwapVertRounded'
+import UndoRoundedIcon from '@mui/icons-material/UndoRounded'
+import { format, formatDistanceToNow } from 'date-fns'
 import { useResizeObserver } from './hooks/useResizeObserver'
-import { computeJustifiedLayout, computeMasonryLayout } from './layouts'
-import type { LayoutItem, LayoutMode } from './layouts'
+import { useHistory } from './hooks/useHistory'
+import { buildCaption, captionTemplates } from './captions'
+import type { CaptionTemplate } from './captions'
+import { sortModes, sortPhotos } from './sorting'
+import type { SortMode } from './sorting'
+import { applyOrientationTransform, orientationSwapsAxes, readPhotoMetadata } from './exif'
+import { decodeHeic, isHeicFile } from './heicDecoder'
+import { extractRawPreview, isRawFile } from './rawPreview'
+import type { ExifOrientation, PhotoMetadata } from './exif'
+import {
+  computeCoverCrop,
+  computeGridLayout,
+  computeJustifiedLayout,
+  computeMasonryLayout,
+  findDropIndex,
+  fitGridLayout,
+  fitJustifiedLayout,
+  fitMasonryLayout,
+  getCropFraction,
+  getPhotoSlot,
+} from './layouts'
+import type { BarePhoto, FittedLayoutResult, LayoutItem, LayoutMode } from './layouts'
+import { defaultPhotoEdits, getEditedFocus, getEditedSize, resolveTileDraw } from './photoEdits'
+import type { PhotoEdits } from './photoEdits'
+import { PhotoEditorDialog } from './components/PhotoEditorDialog'
+import { DuplicateReviewDialog } from './components/DuplicateReviewDialog'
+import { CullingDialog } from './components/CullingDialog'
+import type { CullingCandidate } from './components/CullingDialog'
+import { measurePhotoQuality, QUALITY_SAMPLE_SIZE } from './photoQuality'
+import {
+  collectDroppedFiles,
+  collectPastedFiles,
+  describeSkippedFiles,
+  IMPORT_ACCEPT,
+  partitionImageFiles,
+  pickDirectoryFiles,
+  sortFolderFiles,
+  supportsDirectoryPicker,
+} from './fileSources'
+import { computePhotoHash, findDuplicateGroups } from './duplicates'
+import type { DuplicateGroup } from './duplicates'
+import { ADJUSTED_TILE_NAME, AdjustedImage } from './components/AdjustedImage'
+import { neutralAdjustments, resolveAdjustments, sanitizeAdjustments } from './photoFilters'
+import type { PhotoAdjustments } from './photoFilters'
+import {
+  createBlurredBackdrop,
+  defaultCollageStyle,
+  getCaptionColor,
+  getGradientLine,
+  getTileRadius,
+  getTileShadow,
+  sanitizeCollageStyle,
+} from './collageStyle'
+import type { CollageStyle } from './collageStyle'
+import { StylePanel } from './components/StylePanel'
+import { AdjustmentsPanel } from './components/AdjustmentsPanel'
+import { defaultCaptionDesign, getCaptionTextConfig, layoutCaption, loadCaptionFont, sanitizeCaptionDesign } from './captionDesign'
+import type { CaptionDesign } from './captionDesign'
+import { CaptionDesignPanel } from './components/CaptionDesignPanel'
+import {
+  defaultTileLabelStyle,
+  getDefaultTileLabel,
+  getTileLabel,
+  getTileLabelBand,
+  getTileLabelStripHeight,
+  getTileLabelTextConfig,
+  sanitizeTileLabelStyle,
+} from './tileLabels'
+import type { TileLabelStyle } from './tileLabels'
+import { TileLabelPanel } from './components/TileLabelPanel'
+import { exportFormats, getSupportedExportFormats, resolveExportQuality, resolveMinimumQuality } from './exportFormats'
+import type { ExportFormat } from './exportFormats'
+import { MAX_JPEG_DIMENSION, StreamingJpegEncoder } from './jpegEncoder'
+import { decodeInWorker, exportInWorker, supportsWorkerImaging } from './imageWorkers'
+import type { ExportScene, SceneFill, SourceTile } from './imageWorkers'
+import { clearSession, getSessionSummary, hasStorageFor, loadSession, saveSession, storePhotoFiles } from './sessionStore'
+import type { SessionSummary } from './sessionStore'
+import { PROJECT_EXTENSION, readProject, writeProject } from './projectFile'
 
 const debounce = <T extends (...args: any[]) => any>(fn: T, delay: number) => {
   let timeoutId: ReturnType<typeof setTimeout> | null = null
@@ -45,18 +137,50 @@ const MAX_IMAGES_MOBILE = 50
 const EXPORT_WIDTH = 3600
 const IMPORT_WIDTH_MOBILE = 1800 // Smaller images on mobile to save memory
 const DEFAULT_ROW_HEIGHT = 340
-const DEFAULT_GUTTER = 32
-const FOOTER_HEIGHT = 240
-const FRAME_PADDING = 48
+const FRAME_STROKE = 'rgba(12,12,16,0.08)'
+const FRAME_STROKE_WIDTH = 8
 const PREVIEW_MAX_WIDTH = 600
 const BATCH_SIZE_DESKTOP = 8
 const BATCH_SIZE_MOBILE = 3 // Smaller batches on mobile
+const OPTIMAL_ROWS_MOBILE_LIMIT = 60 // Above this, mobile falls back to greedy justified rows
+const LONG_PRESS_DELAY = 350 // Touch needs a long press so swipes keep scrolling the page
+const LONG_PRESS_TOLERANCE = 10 // Finger jitter (in screen px) allowed while holding
+const DEFAULT_SIZE_LIMIT_MB = 5
+const MIN_SIZE_LIMIT_MB = 0.5
+const BYTES_PER_MB = 1_000_000 // Upload forms count decimal megabytes, which is the stricter reading
+const MIN_SIZE_LIMIT_SCALE = 0.25
+const QUALITY_SEARCH_STEPS = 6
+const TILE_PIXEL_BUDGET = 4_000_000 // Largest strip rendered at once by the tiled JPEG export
 const compressionPresets = {
-  crisp: { label: 'Crisp', helper: 'Best detail', quality: 0.95 },
-  balanced: { label: 'Balanced', helper: 'Everyday', quality: 0.85 },
-  compact: { label: 'Compact', helper: 'Smallest file', quality: 0.72 },
+  crisp: { label: 'Crisp', helper: 'Best detail', level: 'high' },
+  balanced: { label: 'Balanced', helper: 'Everyday', level: 'medium' },
+  compact: { label: 'Compact', helper: 'Smallest file', level: 'low' },
 } as const
 type CompressionPreset = keyof typeof compressionPresets
+const gridAspectPresets = {
+  square: { label: '1:1', aspect: 1 },
+  portrait: { label: '4:5', aspect: 4 / 5 },
+  landscape: { label: '3:2', aspect: 3 / 2 },
+} as const
+type GridAspectPreset = keyof typeof gridAspectPresets
+const outputTargets = {
+  auto: { label: 'Fit photos', aspect: null },
+  square: { label: '1:1 Square', aspect: 1 },
+  portrait: { label: '4:5 Portrait', aspect: 4 / 5 },
+  story: { label: '9:16 Story', aspect: 9 / 16 },
+  wide: { label: '16:9 Wide', aspect: 16 / 9 },
+  custom: { label: 'Custom size', aspect: null },
+} as const
+type OutputTarget = keyof typeof outputTargets
+const MIN_CUSTOM_SIDE = 320
+const MIN_COLUMNS = 2
+const MAX_COLUMNS = 6
+const MIN_ROW_HEIGHT = 220
+const MAX_ROW_HEIGHT = 480
+const MAX_CUSTOM_SIDE = 12_000
+const MIN_COLLAGE_HEIGHT = 200
+const FEATURED_SPAN = 2 // Featured photos cover two masonry columns or a double-height row
+const CROP_BADGE_THRESHOLD = 0.05 // Only flag photos that lose at least 5% of their area
 
 type CanvasSource = HTMLImageElement | HTMLCanvasElement | ImageBitmap
 
@@ -66,6 +190,20 @@ interface PhotoAsset {
   width: number
   height: number
   image: CanvasSource
+  // Original file, kept for saving the session and project files.
+  file: File
+  // EXIF capture time (ms since epoch, camera local time) when the file carries one.
+  capturedAt: number | null
+  lastModified: number | null
+  cameraModel: string | null
+  hasGps: boolean
+  // 1 for regular photos, FEATURED_SPAN for featured ones.
+  span: number
+  edits: PhotoEdits
+  // Own label text; null follows the collage's default label source.
+  caption: string | null
+  // Perceptual hash of the decoded image, for spotting duplicates; null if it couldn't be sampled.
+  hash: bigint | null
 }
 
 const isBrowser = typeof window !== 'undefined'
@@ -110,10 +248,27 @@ const releaseImageSource = (source: CanvasSource | undefined) => {
   maybeBitmap?.close?.()
 }
 
-const disposeAssets = (collection: PhotoAsset[]) => {
-  collection.forEach((asset) => releaseImageSource(asset.image))
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+
+  // Clean up blob URL after a short delay
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+const moveItem = <T,>(list: T[], fromIndex: number, toIndex: number) => {
+  const next = [...list]
+  const [moved] = next.splice(fromIndex, 1)
+  next.splice(toIndex, 0, moved)
+  return next
 }
 
+const clampNumber = (value: number, min: number, max: number) =>
+  Number.isFinite(value) ? Math.min(Math.max(value, min), max) : min
+
 const dataUrlToBytes = (value: string) => {
   const base64 = value.split(',')[1]
   if (!base64) {
@@ -131,6 +286,9 @@ const formatBytes = (bytes: number) => {
   return mb >= 1 ? `${mb.toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`
 }
 
+// Size limits are entered and reported in decimal megabytes.
+const formatMegabytes = (bytes: number) => `${Number((bytes / BYTES_PER_MB).toFixed(1))} MB`
+
 const isIOS = () => {
   if (typeof navigator === 'undefined') return false
   return /iPad|iPhone|iPod/.test(navigator.userAgent) || 
@@ -188,53 +346,226 @@ const canvasToBlobAsync = (canvas: HTMLCanvasElement, mimeType: string, quality:
   })
 }
 
+// An encoder the browser lacks silently yields PNG; don't save that under the wrong name.
+const assertEncodedType = (blob: Blob, mimeType: string) => {
+  if (blob.type && blob.type !== mimeType) {
+    throw new Error(`This browser cannot encode ${mimeType}`)
+  }
+  return blob
+}
+
+const encodeCanvas = async (canvas: HTMLCanvasElement, mimeType: string, quality: number) =>
+  assertEncodedType(await canvasToBlobAsync(canvas, mimeType, quality), mimeType)
+
+const getAdjustedTiles = (stage: Konva.Stage) => stage.find<Konva.Image>(`.${ADJUSTED_TILE_NAME}`)
+
+// Filtered tiles are cached at preview resolution; exports re-cache them to match the output.
+const cacheAdjustedTiles = (stage: Konva.Stage, pixelRatio: number) => {
+  getAdjustedTiles(stage).forEach((node) => node.cache({ pixelRatio }))
+}
+
+const renderStageAtScale = async (
+  stage: Konva.Stage,
+  fullWidth: number,
+  fullHeight: number,
+  outputScale: number,
+  scale: number,
+) => {
+  cacheAdjustedTiles(stage, outputScale * scale)
+  stage.scale({ x: outputScale * scale, y: outputScale * scale })
+  stage.size({ width: Math.round(fullWidth * outputScale * scale), height: Math.round(fullHeight * outputScale * scale) })
+  stage.batchDraw()
+
+  // Small delay to let the browser stabilize
+  await new Promise(resolve => setTimeout(resolve, 100))
+
+  return stage.toCanvas() as HTMLCanvasElement
+}
+
+// Resolutions to try, largest first, when a full-size canvas can't be allocated.
+const getExportScales = (fullWidth: number, fullHeight: number, outputScale: number) => {
+  const safeScale = Math.min(1, getSafeExportScale(fullWidth * outputScale, fullHeight * outputScale))
+  return [safeScale, safeScale * 0.7, safeScale * 0.5, 0.25].filter(s => s > 0.1)
+}
+
 // Attempt export with automatic retry at lower resolution
 const attemptExport = async (
   stage: Konva.Stage,
   fullWidth: number,
   fullHeight: number,
+  // Maps stage units to output pixels, e.g. for a custom canvas size; `scale` stays relative to it.
+  outputScale: number,
+  mimeType: string,
   quality: number,
   onProgress?: (message: string) => void
 ): Promise<{ blob: Blob; scale: number }> => {
-  const safeScale = getSafeExportScale(fullWidth, fullHeight)
-  const scales = [safeScale, safeScale * 0.7, safeScale * 0.5, 0.25].filter(s => s > 0.1)
+  const scales = getExportScales(fullWidth, fullHeight, outputScale)
   
   let lastError: Error | null = null
   
   for (const scale of scales) {
-    const scaledWidth = Math.round(fullWidth * scale)
-    const scaledHeight = Math.round(fullHeight * scale)
-    
     onProgress?.(`Exporting at ${Math.round(scale * 100)}% resolution...`)
     
+    let blob: Blob
     try {
-      stage.scale({ x: scale, y: scale })
-      stage.size({ width: scaledWidth, height: scaledHeight })
-      stage.batchDraw()
-      
-      // Small delay to let the browser stabilize
-      await new Promise(resolve => setTimeout(resolve, 100))
-      
-      const canvas = stage.toCanvas() as HTMLCanvasElement
-      const blob = await canvasToBlobAsync(canvas, 'image/jpeg', quality)
-      
-      return { blob, scale }
+      const canvas = await renderStageAtScale(stage, fullWidth, fullHeight, outputScale, scale)
+      blob = await canvasToBlobAsync(canvas, mimeType, quality)
     } catch (error) {
       console.warn(`Export at ${Math.round(scale * 100)}% failed:`, error)
       lastError = error instanceof Error ? error : new Error('Export failed')
       
       // Force cleanup before retry
       await new Promise(resolve => setTimeout(resolve, 200))
+      continue
     }
+
+    // Only allocation failures are worth a smaller retry; a missing encoder stays missing.
+    return { blob: assertEncodedType(blob, mimeType), scale }
   }
   
   throw lastError || new Error('Export failed at all resolutions')
 }
 
-const readFileAsAsset = async (file: File, index: number): Promise<PhotoAsset> => {
-  const id = `${file.name}-${index}-${Date.now()}`
-  // Use significantly reduced max width on mobile to save memory
-  const maxWidth = isMobile() ? IMPORT_WIDTH_MOBILE : EXPORT_WIDTH
+// Renders the stage in horizontal strips and streams them through a JPEG encoder, so a
+// full-resolution export never needs a canvas larger than TILE_PIXEL_BUDGET. The stage is
+// shifted up for each strip rather than passing a `y` offset to `toCanvas`, because Konva
+// sizes its scratch buffer to `y + height`, which would grow to the whole collage.
+const attemptTiledJpegExport = async (
+  stage: Konva.Stage,
+  fullWidth: number,
+  fullHeight: number,
+  outputScale: number,
+  quality: number,
+  onProgress?: (message: string) => void
+): Promise<Blob> => {
+  const width = Math.round(fullWidth * outputScale)
+  const height = Math.round(fullHeight * outputScale)
+  const encoder = new StreamingJpegEncoder(width, height, quality)
+  const stripHeight = Math.max(8, Math.floor(TILE_PIXEL_BUDGET / width / 8) * 8)
+  const adjustedTiles = getAdjustedTiles(stage).map((node) => {
+    const box = node.getClientRect({ relativeTo: stage })
+    // Drop the preview-sized cache; each tile is cached again at full size when its strip comes up.
+    node.clearCache()
+    return { node, box }
+  })
+
+  stage.scale({ x: outputScale, y: outputScale })
+  for (let top = 0; top < height; top += stripHeight) {
+    const rows = Math.min(stripHeight, height - top)
+    onProgress?.(`Encoding rows ${top + 1}–${top + rows} of ${height}...`)
+
+    // Only the filtered tiles crossing this strip hold a full-resolution cache at any time.
+    adjustedTiles.forEach(({ node, box }) => {
+      const visible = box.y * outputScale < top + rows && (box.y + box.height) * outputScale > top
+      if (visible && !node.isCached()) {
+        node.cache({ pixelRatio: outputScale })
+      } else if (!visible && node.isCached()) {
+        node.clearCache()
+      }
+    })
+
+    stage.position({ x: 0, y: -top })
+    const strip = stage.toCanvas({ x: 0, y: 0, width, height: rows, pixelRatio: 1 }) as HTMLCanvasElement
+    const context = strip.getContext('2d')
+    if (!context) {
+      throw new Error('Unable to read back an export strip')
+    }
+    encoder.encodeRows(context.getImageData(0, 0, width, rows).data, rows)
+    // Hand the strip's memory back straight away; iOS only reclaims canvases lazily.
+    strip.width = 0
+    strip.height = 0
+
+    // Keep the page responsive between strips.
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+
+  return encoder.finish()
+}
+
+// Export the best result that stays under `maxBytes`: binary-search the encoder quality
+// between `minQuality` and `maxQuality` first, and only give up pixels when even the floor
+// is too large. Lossless formats pass `minQuality === maxQuality` and only shrink.
+const attemptExportUnderSize = async (
+  stage: Konva.Stage,
+  fullWidth: number,
+  fullHeight: number,
+  outputScale: number,
+  mimeType: string,
+  maxQuality: number,
+  minQuality: number,
+  maxBytes: number,
+  onProgress?: (message: string) => void
+): Promise<{ blob: Blob; scale: number; quality: number }> => {
+  let scale = Math.min(1, getSafeExportScale(fullWidth * outputScale, fullHeight * outputScale))
+
+  while (scale >= MIN_SIZE_LIMIT_SCALE) {
+    onProgress?.(`Fitting under ${formatMegabytes(maxBytes)} at ${Math.round(scale * 100)}% resolution...`)
+
+    let canvas: HTMLCanvasElement
+    try {
+      canvas = await renderStageAtScale(stage, fullWidth, fullHeight, outputScale, scale)
+    } catch (error) {
+      console.warn(`Export at ${Math.round(scale * 100)}% failed:`, error)
+      scale *= 0.7
+      await new Promise(resolve => setTimeout(resolve, 200))
+      continue
+    }
+
+    // Most collages fit at the requested quality, so try that before searching.
+    const best = await encodeCanvas(canvas, mimeType, maxQuality)
+    if (best.size <= maxBytes) {
+      return { blob: best, scale, quality: maxQuality }
+    }
+
+    const floor = minQuality < maxQuality ? await encodeCanvas(canvas, mimeType, minQuality) : best
+    if (floor.size <= maxBytes) {
+      let result = { blob: floor, quality: minQuality }
+      let low = minQuality
+      let high = maxQuality
+      for (let step = 0; step < QUALITY_SEARCH_STEPS; step += 1) {
+        const quality = (low + high) / 2
+        const blob = await encodeCanvas(canvas, mimeType, quality)
+        if (blob.size <= maxBytes) {
+          result = { blob, quality }
+          low = quality
+        } else {
+          high = quality
+        }
+      }
+      return { ...result, scale }
+    }
+
+    // Encoded size grows roughly with pixel count, so shrink both sides by the square root
+    // of the overshoot, with a little headroom so the next pass usually lands.
+    scale = Math.floor(scale * Math.min(0.9, Math.sqrt(maxBytes / floor.size) * 0.95) * 100) / 100
+  }
+
+  throw new Error(`Unable to fit the export under ${formatMegabytes(maxBytes)}`)
+}
+
+type ImportMode = 'append' | 'replace'
+
+// Monotonic counter keeps ids unique across import batches, even for repeated file names.
+let assetSequence = 0
+const createAssetId = (file: File) => {
+  assetSequence += 1
+  return `${file.name}-${assetSequence}-${Date.now()}`
+}
+
+interface DecodedImage {
+  image: CanvasSource
+  width: number
+  height: number
+}
+
+const decodeImage = async (file: File, maxWidth: number): Promise<DecodedImage> => {
+  if (supportsWorkerImaging) {
+    try {
+      return await decodeInWorker(file, maxWidth)
+    } catch (error) {
+      console.warn('Falling back to main-thread decoding', error)
+    }
+  }
 
   if (supportsImageBitmap) {
     try {
@@ -244,13 +575,7 @@ const readFileAsAsset = async (file: File, index: number): Promise<PhotoAsset> =
       const targetHeight = Math.round(bitmap.height * scale)
 
       if (scale === 1) {
-        return {
-          id,
-          name: file.name,
-          width: targetWidth,
-          height: targetHeight,
-          image: bitmap,
-        }
+        return { image: bitmap, width: targetWidth, height: targetHeight }
       }
 
       const resized = await createImageBitmap(bitmap, {
@@ -260,13 +585,7 @@ const readFileAsAsset = async (file: File, index: number): Promise<PhotoAsset> =
       })
       bitmap.close()
 
-      return {
-        id,
-        name: file.name,
-        width: targetWidth,
-        height: targetHeight,
-        image: resized,
-      }
+      return { image: resized, width: targetWidth, height: targetHeight }
     } catch (error) {
       console.warn('Falling back to HTMLImageElement decoding', error)
     }
@@ -278,54 +597,312 @@ const readFileAsAsset = async (file: File, index: number): Promise<PhotoAsset> =
   const targetHeight = Math.round(image.naturalHeight * scale)
 
   if (scale === 1) {
-    return {
-      id,
-      name: file.name,
-      width: targetWidth,
-      height: targetHeight,
-      image,
+    return { image, width: targetWidth, height: targetHeight }
+  }
+
+  return { image: drawToCanvas(image, targetWidth, targetHeight), width: targetWidth, height: targetHeight }
+}
+
+// Modern browsers rotate JPEGs according to EXIF while decoding, older ones hand back the
+// stored pixels. Only axis-swapping orientations reveal which behaviour we got, so the
+// answer is remembered for files where the dimensions alone can't tell.
+let decoderAppliesOrientation = true
+
+const needsManualOrientation = (decoded: DecodedImage, metadata: PhotoMetadata) => {
+  if (metadata.orientation === 1) {
+    return false
+  }
+
+  const { frameWidth, frameHeight } = metadata
+  if (orientationSwapsAxes(metadata.orientation) && frameWidth && frameHeight && frameWidth !== frameHeight) {
+    const decodedLandscape = decoded.width > decoded.height
+    decoderAppliesOrientation = decodedLandscape !== frameWidth > frameHeight
+  }
+
+  return !decoderAppliesOrientation
+}
+
+const orientImage = (decoded: DecodedImage, orientation: ExifOrientation, maxWidth: number): DecodedImage => {
+  const swaps = orientationSwapsAxes(orientation)
+  const orientedWidth = swaps ? decoded.height : decoded.width
+  const scale = Math.min(1, maxWidth / orientedWidth)
+  const drawWidth = Math.round(decoded.width * scale)
+  const drawHeight = Math.round(decoded.height * scale)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = swaps ? drawHeight : drawWidth
+  canvas.height = swaps ? drawWidth : drawHeight
+  const context = canvas.getContext('2d')
+  if (context) {
+    applyOrientationTransform(context, orientation, drawWidth, drawHeight)
+    context.drawImage(decoded.image, 0, 0, drawWidth, drawHeight)
+  }
+  releaseImageSource(decoded.image)
+
+  return { image: canvas, width: canvas.width, height: canvas.height }
+}
+
+// Decodes any supported file upright: natively where the browser can, through the embedded
+// JPEG for camera RAW files, and through the bundled HEIC decoder where there's no native one.
+const decodePhotoFile = async (file: File, metadata: PhotoMetadata, maxWidth: number): Promise<DecodedImage> => {
+  if (isRawFile(file)) {
+    const preview = await extractRawPreview(file)
+    const previewMetadata = await readPhotoMetadata(preview)
+    const decoded = await decodeImage(preview, maxWidth)
+    // Previews usually leave the rotation to the RAW file's own orientation tag.
+    if (previewMetadata.orientation === 1 && metadata.orientation !== 1) {
+      return orientImage(decoded, metadata.orientation, maxWidth)
     }
+    return needsManualOrientation(decoded, previewMetadata)
+      ? orientImage(decoded, previewMetadata.orientation, maxWidth)
+      : decoded
   }
 
-  const canvas = drawToCanvas(image, targetWidth, targetHeight)
+  let decoded: DecodedImage
+  try {
+    decoded = await decodeImage(file, maxWidth)
+  } catch (error) {
+    // Workers already tried libheif off the main thread; only browsers without them decode here.
+    if (!isHeicFile(file) || supportsWorkerImaging) {
+      throw error
+    }
+    return decodeHeic(file, maxWidth)
+  }
+  return needsManualOrientation(decoded, metadata) ? orientImage(decoded, metadata.orientation, maxWidth) : decoded
+}
+
+const readFileAsAsset = async (file: File, id = createAssetId(file)): Promise<PhotoAsset> => {
+  // Use significantly reduced max width on mobile to save memory
+  const maxWidth = isMobile() ? IMPORT_WIDTH_MOBILE : EXPORT_WIDTH
+
+  const metadata = await readPhotoMetadata(file)
+  const decoded = await decodePhotoFile(file, metadata, maxWidth)
+
   return {
     id,
     name: file.name,
-    width: targetWidth,
-    height: targetHeight,
-    image: canvas,
+    width: decoded.width,
+    height: decoded.height,
+    image: decoded.image,
+    file,
+    capturedAt: metadata.capturedAt,
+    lastModified: file.lastModified || null,
+    cameraModel: metadata.cameraModel,
+    hasGps: metadata.hasGps,
+    span: 1,
+    edits: defaultPhotoEdits,
+    caption: null,
+    hash: computePhotoHash(decoded.image),
+  }
+}
+
+// Decodes a small copy for the culling grid; files that fail still show up, unscored.
+const readCullingCandidate = async (file: File): Promise<CullingCandidate> => {
+  try {
+    const decoded = await decodePhotoFile(file, await readPhotoMetadata(file), QUALITY_SAMPLE_SIZE)
+    return {
+      name: file.name,
+      image: decoded.image,
+      width: decoded.width,
+      height: decoded.height,
+      quality: measurePhotoQuality(decoded.image, decoded.width, decoded.height),
+    }
+  } catch (error) {
+    console.warn(`Unable to preview ${file.name}`, error)
+    return { name: file.name, image: null, width: 1, height: 1, quality: null }
   }
 }
 
+// Everything besides the photos that a saved session brings back.
+interface SessionSettings {
+  layoutMode: LayoutMode
+  columns: number
+  gridAspect: GridAspectPreset
+  rowHeight: number
+  balancedRows: boolean
+  outputTarget: OutputTarget
+  customWidth: number
+  customHeight: number
+  footerEnabled: boolean
+  captionTemplate: CaptionTemplate
+  customFooterText: string | null
+  captionSubtitle: string
+  captionDesign: CaptionDesign
+  tileLabels: TileLabelStyle
+  adjustments: PhotoAdjustments
+  compressionPreset: CompressionPreset
+  exportFormat: ExportFormat
+  transparentBackground: boolean
+  sizeLimitEnabled: boolean
+  sizeLimitMb: number
+  sortMode: SortMode
+  sortDescending: boolean
+  shuffleSeed: number
+  collageStyle: CollageStyle
+}
+
+const layoutModes: LayoutMode[] = ['masonry', 'justified', 'grid']
+
+const isOptionKey = <T extends string>(options: Record<T, unknown>, value: unknown): value is T =>
+  typeof value === 'string' && Object.hasOwn(options, value)
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+/**
+ * Keeps only the settings that are valid in this version of the app. Saved sessions and
+ * project files may come from older builds or other hands, so unknown values are dropped
+ * rather than trusted; whatever is left out keeps its current value.
+ */
+const sanitizeSessionSettings = (raw: unknown): Partial<SessionSettings> => {
+  if (typeof raw !== 'object' || raw === null) {
+    return {}
+  }
+  const value = raw as Record<string, unknown>
+  const settings: Partial<SessionSettings> = {}
+
+  if (layoutModes.includes(value.layoutMode as LayoutMode)) settings.layoutMode = value.layoutMode as LayoutMode
+  if (isFiniteNumber(value.columns)) settings.columns = clampNumber(Math.round(value.columns), MIN_COLUMNS, MAX_COLUMNS)
+  if (isOptionKey(gridAspectPresets, value.gridAspect)) settings.gridAspect = value.gridAspect
+  if (isFiniteNumber(value.rowHeight)) settings.rowHeight = clampNumber(value.rowHeight, MIN_ROW_HEIGHT, MAX_ROW_HEIGHT)
+  if (typeof value.balancedRows === 'boolean') settings.balancedRows = value.balancedRows
+  if (isOptionKey(outputTargets, value.outputTarget)) settings.outputTarget = value.outputTarget
+  if (isFiniteNumber(value.customWidth)) settings.customWidth = clampNumber(value.customWidth, MIN_CUSTOM_SIDE, MAX_CUSTOM_SIDE)
+  if (isFiniteNumber(value.customHeight)) settings.customHeight = clampNumber(value.customHeight, MIN_CUSTOM_SIDE, MAX_CUSTOM_SIDE)
+  if (typeof value.footerEnabled === 'boolean') settings.footerEnabled = value.footerEnabled
+  if (isOptionKey(captionTemplates, value.captionTemplate)) settings.captionTemplate = value.captionTemplate
+  if (typeof value.customFooterText === 'string' || value.customFooterText === null) {
+    settings.customFooterText = value.customFooterText
+  }
+  if (typeof value.captionSubtitle === 'string') settings.captionSubtitle = value.captionSubtitle
+  if (value.captionDesign !== undefined) settings.captionDesign = sanitizeCaptionDesign(value.captionDesign)
+  if (value.tileLabels !== undefined) settings.tileLabels = sanitizeTileLabelStyle(value.tileLabels)
+  if (value.adjustments !== undefined) settings.adjustments = sanitizeAdjustments(value.adjustments)
+  if (isOptionKey(compressionPresets, value.compressionPreset)) settings.compressionPreset = value.compressionPreset
+  if (isOptionKey(exportFormats, value.exportFormat)) settings.exportFormat = value.exportFormat
+  if (typeof value.transparentBackground === 'boolean') settings.transparentBackground = value.transparentBackground
+  if (typeof value.sizeLimitEnabled === 'boolean') settings.sizeLimitEnabled = value.sizeLimitEnabled
+  if (isFiniteNumber(value.sizeLimitMb)) settings.sizeLimitMb = Math.max(value.sizeLimitMb, MIN_SIZE_LIMIT_MB)
+  if (isOptionKey(sortModes, value.sortMode)) settings.sortMode = value.sortMode
+  if (typeof value.sortDescending === 'boolean') settings.sortDescending = value.sortDescending
+  if (Number.isInteger(value.shuffleSeed)) settings.shuffleSeed = value.shuffleSeed as number
+  if (value.collageStyle !== undefined) settings.collageStyle = sanitizeCollageStyle(value.collageStyle)
+  return settings
+}
+
+const SESSION_SAVE_DELAY = 1000
+// Undo steps that still hold removed photos; older steps are dropped to free their bitmaps.
+const REMOVED_PHOTO_STEPS_DESKTOP = 20
+const REMOVED_PHOTO_STEPS_MOBILE = 5
+const CLEAR_UNDO_GRACE = 15_000 // How long "Clear all" stays undoable before its bitmaps are released
+
+// One undo step: the photos (with their edits and order) plus every setting.
+interface CollageSnapshot {
+  settings: SessionSettings
+  assets: PhotoAsset[]
+}
+
+// Asset arrays are replaced on every change, so identity is enough for them.
+const isSameSnapshot = (a: CollageSnapshot, b: CollageSnapshot) =>
+  a.assets === b.assets &&
+  (Object.keys(a.settings) as (keyof SessionSettings)[]).every((key) => a.settings[key] === b.settings[key])
+
+// Such a step keeps the removed photos' bitmaps and stored files alive while it is undoable.
+const holdsRemovedPhotos = (snapshot: CollageSnapshot, present: CollageSnapshot) => {
+  const shown = new Set(present.assets.map((asset) => asset.image))
+  return snapshot.assets.some((asset) => !shown.has(asset.image))
+}
+
 function App() {
   const [assets, setAssets] = useState<PhotoAsset[]>([])
   const [layoutMode, setLayoutMode] = useState<LayoutMode>('masonry')
   const [columns, setColumns] = useState(4)
+  const [gridAspect, setGridAspect] = useState<GridAspectPreset>('square')
+  const [outputTarget, setOutputTarget] = useState<OutputTarget>('auto')
+  const [customWidth, setCustomWidth] = useState(3600)
+  const [customHeight, setCustomHeight] = useState(2400)
   const [rowHeight, setRowHeight] = useState(DEFAULT_ROW_HEIGHT)
+  const [balancedRows, setBalancedRows] = useState(true)
   const [isProcessing, setIsProcessing] = useState(false)
+  // Export progress shown under the processing overlay's bar.
+  const [processingMessage, setProcessingMessage] = useState<string | null>(null)
   const [footerEnabled, setFooterEnabled] = useState(true)
-  const [footerText, setFooterText] = useState(format(new Date(), 'MMMM d, yyyy'))
+  const [captionTemplate, setCaptionTemplate] = useState<CaptionTemplate>('range')
+  // null while the caption follows the template; set once the user types their own text.
+  const [customFooterText, setCustomFooterText] = useState<string | null>(null)
+  const [captionSubtitle, setCaptionSubtitle] = useState('')
+  const [captionDesign, setCaptionDesign] = useState<CaptionDesign>(defaultCaptionDesign)
+  const [tileLabels, setTileLabels] = useState<TileLabelStyle>(defaultTileLabelStyle)
+  // Collage-wide adjustments; each photo's own adjustments are added on top.
+  const [adjustments, setAdjustments] = useState<PhotoAdjustments>(neutralAdjustments)
+  // Caption and label fonts whose glyphs are ready; the caption is measured again when they change.
+  const [loadedFonts, setLoadedFonts] = useState<string | null>(null)
   const [snackbar, setSnackbar] = useState<string | null>(null)
   const [compressionPreset, setCompressionPreset] = useState<CompressionPreset>('balanced')
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('jpeg')
+  const [transparentBackground, setTransparentBackground] = useState(false)
+  const [sizeLimitEnabled, setSizeLimitEnabled] = useState(false)
+  const [sizeLimitMb, setSizeLimitMb] = useState(DEFAULT_SIZE_LIMIT_MB)
   const [estimatedSize, setEstimatedSize] = useState<number | null>(null)
   const [isEstimating, setIsEstimating] = useState(false)
   const [isDragOver, setIsDragOver] = useState(false)
   const [debouncedColumns, setDebouncedColumns] = useState(4)
   const [debouncedRowHeight, setDebouncedRowHeight] = useState(DEFAULT_ROW_HEIGHT)
+  const [sortMode, setSortMode] = useState<SortMode>('manual')
+  const [sortDescending, setSortDescending] = useState(false)
+  const [shuffleSeed, setShuffleSeed] = useState(() => Math.floor(Math.random() * 2 ** 31))
+  const [collageStyle, setCollageStyle] = useState<CollageStyle>(defaultCollageStyle)
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  // Sets of look-alike photos found by the last import, awaiting review.
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([])
+  // An import over the photo limit, waiting for the user to pick which photos to keep.
+  const [culling, setCulling] = useState<{
+    files: File[]
+    candidates: CullingCandidate[]
+    limit: number
+    mode: ImportMode
+  } | null>(null)
+  const [reorderState, setReorderState] = useState<{ id: string; targetIndex: number } | null>(null)
+  const [savedSession, setSavedSession] = useState<SessionSummary | null>(null)
+  const [clearUndoOpen, setClearUndoOpen] = useState(false)
 
   const { ref: previewRef, size: previewSize } = useResizeObserver<HTMLDivElement>()
   const stageRef = useRef<Konva.Stage>(null)
+  const footerLayerRef = useRef<Konva.Layer>(null)
+  const tileLabelLayerRef = useRef<Konva.Layer>(null)
   const assetsRef = useRef<PhotoAsset[]>([])
+  // Every bitmap still reachable from the canvas or the undo history; the rest get closed.
+  const liveImagesRef = useRef(new Set<CanvasSource>())
+  const clearTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // What "Clear all" removed, for its Undo; later edits may have pushed it down the history.
+  const clearedRef = useRef<{ assets: PhotoAsset[]; customFooterText: string | null } | null>(null)
   const dragCounterRef = useRef(0)
-  const compressionQuality = compressionPresets[compressionPreset].quality
+  const folderInputRef = useRef<HTMLInputElement>(null)
+  const longPressRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const longPressOriginRef = useRef<{ x: number; y: number } | null>(null)
+  const touchReorder = useMemo(() => isMobile(), [])
+  // Cleared when storage runs out so later imports don't keep failing to persist.
+  const persistPhotosRef = useRef(true)
+  // Held for the length of an import or project open; `isProcessing` is stale in handlers that awaited first.
+  const importingRef = useRef(false)
+  const supportedExportFormats = useMemo(() => getSupportedExportFormats(), [])
+  const exportFormatInfo = exportFormats[exportFormat]
+  const compressionQuality = resolveExportQuality(exportFormat, compressionPresets[compressionPreset].level)
+  // JPEG has no alpha channel, so the frame stays white there whatever the toggle says.
+  const showTransparentFrame = transparentBackground && exportFormatInfo.supportsTransparency
+  const sizeLimitBytes = sizeLimitEnabled ? Math.max(sizeLimitMb, MIN_SIZE_LIMIT_MB) * BYTES_PER_MB : null
 
   useEffect(() => {
     assetsRef.current = assets
   }, [assets])
 
   useEffect(() => {
+    const liveImages = liveImagesRef.current
     return () => {
-      disposeAssets(assetsRef.current)
+      liveImages.forEach(releaseImageSource)
+      if (clearTimerRef.current) {
+        clearTimeout(clearTimerRef.current)
+      }
     }
   }, [])
 
@@ -336,6 +913,160 @@ function App() {
     Konva.pixelRatio = Math.min(window.devicePixelRatio || 1, 1.5)
   }, [])
 
+  useEffect(() => {
+    getSessionSummary()
+      .then(setSavedSession)
+      .catch((error) => console.warn('Unable to read the saved session', error))
+  }, [])
+
+  const fontsKey = `${captionDesign.font}/${tileLabels.font}`
+  const loadFonts = () => Promise.all([loadCaptionFont(captionDesign.font), loadCaptionFont(tileLabels.font)])
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([loadCaptionFont(captionDesign.font), loadCaptionFont(tileLabels.font)]).then(() => {
+      if (!cancelled) {
+        setLoadedFonts(`${captionDesign.font}/${tileLabels.font}`)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [captionDesign.font, tileLabels.font])
+
+  // Text props don't change when a web font arrives, so Konva has to be told to repaint.
+  useEffect(() => {
+    if (loadedFonts) {
+      footerLayerRef.current?.batchDraw()
+      tileLabelLayerRef.current?.batchDraw()
+    }
+  }, [loadedFonts])
+
+  const sessionSettings = useMemo<SessionSettings>(
+    () => ({
+      layoutMode,
+      columns,
+      gridAspect,
+      rowHeight,
+      balancedRows,
+      outputTarget,
+      customWidth,
+      customHeight,
+      footerEnabled,
+      captionTemplate,
+      customFooterText,
+      captionSubtitle,
+      captionDesign,
+      tileLabels,
+      adjustments,
+      compressionPreset,
+      exportFormat,
+      transparentBackground,
+      sizeLimitEnabled,
+      sizeLimitMb,
+      sortMode,
+      sortDescending,
+      shuffleSeed,
+      collageStyle,
+    }),
+    [
+      layoutMode,
+      columns,
+      gridAspect,
+      rowHeight,
+      balancedRows,
+      outputTarget,
+      customWidth,
+      customHeight,
+      footerEnabled,
+      captionTemplate,
+      customFooterText,
+      captionSubtitle,
+      captionDesign,
+      tileLabels,
+      adjustments,
+      compressionPreset,
+      exportFormat,
+      transparentBackground,
+      sizeLimitEnabled,
+      sizeLimitMb,
+      sortMode,
+      sortDescending,
+      shuffleSeed,
+      collageStyle,
+    ],
+  )
+
+  const collageSnapshot = useMemo<CollageSnapshot>(
+    () => ({ settings: sessionSettings, assets }),
+    [sessionSettings, assets],
+  )
+  const history = useHistory(collageSnapshot, {
+    apply: (snapshot) => {
+      setAssets(snapshot.assets)
+      applySessionSettings(snapshot.settings)
+    },
+    isEqual: isSameSnapshot,
+    isCostly: holdsRemovedPhotos,
+    costlyLimit: isMobile() ? REMOVED_PHOTO_STEPS_MOBILE : REMOVED_PHOTO_STEPS_DESKTOP,
+  })
+  const canUndo = history.canUndo && !isProcessing
+  const canRedo = history.canRedo && !isProcessing
+
+  // Close bitmaps once neither the canvas nor any undo step can show them again.
+  useEffect(() => {
+    const referenced = new Set<CanvasSource>()
+    ;[assets, ...history.past.map((snapshot) => snapshot.assets), ...history.future.map((snapshot) => snapshot.assets)]
+      .forEach((collection) => collection.forEach((asset) => referenced.add(asset.image)))
+    const liveImages = liveImagesRef.current
+    liveImages.forEach((image) => {
+      if (!referenced.has(image)) {
+        releaseImageSource(image)
+        liveImages.delete(image)
+      }
+    })
+    referenced.forEach((image) => liveImages.add(image))
+  }, [assets, history.past, history.future])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || editingId) {
+        return
+      }
+      // Text fields keep their own undo.
+      const target = event.target as HTMLElement | null
+      if (target?.closest('input, textarea, [contenteditable="true"]')) {
+        return
+      }
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        if (canUndo) history.undo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        if (canRedo) history.redo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [history, canUndo, canRedo, editingId])
+
+  // An empty canvas never overwrites the saved session; only an explicit clear removes it.
+  // Nor does a new collage while the earlier one is still on offer: saving waits until the
+  // user resumes or replaces it. Files of photos that an undo or redo can bring back stay
+  // stored until that step is gone.
+  useEffect(() => {
+    if (!assets.length || savedSession) {
+      return
+    }
+    const timeout = window.setTimeout(() => {
+      const photos = assets.map(({ id, span, edits, caption }) => ({ id, span, edits, caption }))
+      const historyIds = [...history.past, ...history.future].flatMap((snapshot) => snapshot.assets.map(({ id }) => id))
+      saveSession(sessionSettings, photos, historyIds).catch((error) => console.warn('Unable to save the session', error))
+    }, SESSION_SAVE_DELAY)
+    return () => window.clearTimeout(timeout)
+  }, [assets, sessionSettings, history.past, history.future, savedSession])
+
   // Debounce slider changes
   useEffect(() => {
     const handler = debounce(() => setDebouncedColumns(columns), 300)
@@ -348,29 +1079,156 @@ function App() {
   }, [rowHeight])
 
 
-  const layout = useMemo(() => {
-    if (!assets.length) {
+  // `assets` holds the manual order; an active sort is applied on top of it so newly
+  // added photos slot into place without the user re-sorting.
+  // Sorting sees each photo's edited size, so a rotated or cropped photo sorts by its new shape.
+  const orderedAssets = useMemo(
+    () =>
+      sortPhotos(
+        assets.map((asset) => ({ ...asset, ...getEditedSize(asset, asset.edits), asset })),
+        { mode: sortMode, descending: sortDescending, seed: shuffleSeed },
+      ).map(({ asset }) => asset),
+    [assets, sortMode, sortDescending, shuffleSeed],
+  )
+  // Layouts only see the edited photo: its cropped, rotated size and where its subject sits.
+  const layoutPhotos = useMemo<BarePhoto[]>(
+    () =>
+      orderedAssets.map((asset) => ({
+        id: asset.id,
+        span: asset.span,
+        focus: getEditedFocus(asset.edits),
+        ...getEditedSize(asset, asset.edits),
+      })),
+    [orderedAssets],
+  )
+
+  const framePadding = collageStyle.padding
+  const gutter = collageStyle.gutter
+  const labelHeight = getTileLabelStripHeight(tileLabels)
+  const fullExportWidth = EXPORT_WIDTH + framePadding * 2
+  const autoFooterText = useMemo(() => buildCaption(captionTemplate, assets), [captionTemplate, assets])
+  const footerText = customFooterText ?? autoFooterText
+  // Measured on every render (a few text metrics) so it picks up the real font as soon as
+  // `loadedFonts` flips; before that the fallback font's metrics apply.
+  const captionLayout = layoutCaption(captionDesign, footerText || 'OnePic', captionSubtitle, EXPORT_WIDTH)
+  const captionPlacement = captionDesign.placement
+  // Overlay captions sit on the photos, so only top and bottom captions take up a band.
+  const footerHeight = footerEnabled && captionPlacement !== 'overlay' ? captionLayout.height : 0
+  const safeCustomWidth = clampNumber(customWidth, MIN_CUSTOM_SIDE, MAX_CUSTOM_SIDE)
+  const safeCustomHeight = clampNumber(customHeight, MIN_CUSTOM_SIDE, MAX_CUSTOM_SIDE)
+  const outputAspect = outputTarget === 'custom' ? safeCustomWidth / safeCustomHeight : outputTargets[outputTarget].aspect
+  const exportOutputScale = outputTarget === 'custom' ? safeCustomWidth / fullExportWidth : 1
+  // With a fixed canvas the collage must fill whatever is left after the frame and footer.
+  const availableCollageHeight = outputAspect ? fullExportWidth / outputAspect - framePadding * 2 - footerHeight : null
+  const targetCollageHeight = availableCollageHeight === null ? null : Math.max(MIN_COLLAGE_HEIGHT, availableCollageHeight)
+  // A very wide canvas leaves the collage no room next to the frame and caption, so the
+  // export comes out taller than asked; the canvas settings say so.
+  const isCanvasHeightRaised = availableCollageHeight !== null && availableCollageHeight < MIN_COLLAGE_HEIGHT
+
+  const layout = useMemo<FittedLayoutResult>(() => {
+    if (!layoutPhotos.length) {
       return { width: EXPORT_WIDTH, height: 0, items: [] as LayoutItem[] }
     }
 
-    return layoutMode === 'masonry'
-      ? computeMasonryLayout(assets, { columns: debouncedColumns, gutter: DEFAULT_GUTTER, width: EXPORT_WIDTH })
-      : computeJustifiedLayout(assets, { rowHeight: debouncedRowHeight, gutter: DEFAULT_GUTTER, width: EXPORT_WIDTH })
-  }, [assets, debouncedColumns, layoutMode, debouncedRowHeight])
+    if (targetCollageHeight) {
+      const fitOptions = { width: EXPORT_WIDTH, height: targetCollageHeight, gutter, labelHeight }
+      switch (layoutMode) {
+        case 'grid':
+          return fitGridLayout(layoutPhotos, fitOptions)
+        case 'justified':
+          return fitJustifiedLayout(layoutPhotos, fitOptions)
+        default:
+          return fitMasonryLayout(layoutPhotos, fitOptions)
+      }
+    }
 
-  const collageHeight = layout.height + (footerEnabled ? FOOTER_HEIGHT : 0)
-  const fullExportWidth = EXPORT_WIDTH + FRAME_PADDING * 2
-  const fullStageHeight = collageHeight + FRAME_PADDING * 2
+    switch (layoutMode) {
+      case 'grid':
+        return computeGridLayout(layoutPhotos, {
+          columns: debouncedColumns,
+          cellAspect: gridAspectPresets[gridAspect].aspect,
+          gutter,
+          width: EXPORT_WIDTH,
+          labelHeight,
+        })
+      case 'justified': {
+        const useOptimalRows = balancedRows && !(isMobile() && layoutPhotos.length > OPTIMAL_ROWS_MOBILE_LIMIT)
+        return computeJustifiedLayout(layoutPhotos, {
+          rowHeight: debouncedRowHeight,
+          gutter,
+          width: EXPORT_WIDTH,
+          breaking: useOptimalRows ? 'optimal' : 'greedy',
+          labelHeight,
+        })
+      }
+      default:
+        return computeMasonryLayout(layoutPhotos, { columns: debouncedColumns, gutter, width: EXPORT_WIDTH, labelHeight })
+    }
+  }, [
+    layoutPhotos,
+    debouncedColumns,
+    layoutMode,
+    debouncedRowHeight,
+    gridAspect,
+    balancedRows,
+    targetCollageHeight,
+    gutter,
+    labelHeight,
+  ])
+
+  const collageHeight = layout.height + footerHeight
+  const fullStageHeight = collageHeight + framePadding * 2
   const measuredWidth = previewSize.width ?? PREVIEW_MAX_WIDTH
   const safeWidth = measuredWidth > 0 ? measuredWidth : PREVIEW_MAX_WIDTH
   const previewCanvasWidth = Math.min(PREVIEW_MAX_WIDTH, safeWidth, fullExportWidth)
   const liveScale = previewCanvasWidth / fullExportWidth
   const previewCanvasHeight = Math.max(fullStageHeight * liveScale, 1)
-  const stageScaleFactor = liveScale > 0 ? 1 / (liveScale * liveScale) : 1
-  const footerOffsetY = FRAME_PADDING + layout.height
+  const stageScaleFactor = liveScale > 0 ? (exportOutputScale * exportOutputScale) / (liveScale * liveScale) : 1
+  // A top caption pushes the photos down; an overlay caption covers the bottom of the collage.
+  const collageTop = framePadding + (captionPlacement === 'top' ? footerHeight : 0)
+  const captionTop =
+    captionPlacement === 'top'
+      ? framePadding
+      : captionPlacement === 'overlay'
+        ? Math.max(collageTop, collageTop + layout.height - captionLayout.height)
+        : framePadding + layout.height
+  const captionHeight = captionPlacement === 'overlay' ? Math.min(captionLayout.height, layout.height) : footerHeight
+  const tileShadow = getTileShadow(collageStyle)
+  const gradientLine = getGradientLine(fullExportWidth, fullStageHeight, collageStyle.gradientAngle)
+
+  // The first photo in collage order doubles as the blurred backdrop.
+  const backdropSource = collageStyle.background === 'photo' && !showTransparentFrame ? orderedAssets[0] ?? null : null
+  const backdrop = useMemo(() => {
+    if (!backdropSource || fullStageHeight <= 0) {
+      return null
+    }
+    const { edits } = backdropSource
+    const edited = { id: backdropSource.id, ...getEditedSize(backdropSource, edits), focus: getEditedFocus(edits) }
+    return createBlurredBackdrop(
+      backdropSource.image,
+      (size) =>
+        resolveTileDraw(
+          { id: backdropSource.id, x: 0, y: 0, ...size, crop: computeCoverCrop(edited, size.width / size.height) },
+          backdropSource,
+          edits,
+        ),
+      fullExportWidth / fullStageHeight,
+    )
+  }, [backdropSource, fullExportWidth, fullStageHeight])
+  const captionColor = showTransparentFrame ? '#05060a' : getCaptionColor(collageStyle, backdrop?.luminance ?? null)
+  // Overlay captions sit on a dark scrim over the photos, whatever the frame looks like.
+  const captionFill = captionDesign.color ?? (captionPlacement === 'overlay' ? '#f7f7fb' : captionColor)
+  const scrimRadius = Math.min(collageStyle.cornerRadius, captionHeight / 2)
+  // Resolved per change rather than per render, so tiles keep their filter (and cache) meanwhile.
+  const tileAdjustments = useMemo(
+    () => new Map(assets.map((asset) => [asset.id, resolveAdjustments(adjustments, asset.edits.adjustments)])),
+    [assets, adjustments],
+  )
+  // Filtered tiles are cached at the size they appear on screen, not at export size.
+  const previewPixelRatio = liveScale * Konva.pixelRatio
 
   useEffect(() => {
-    if (!stageRef.current || !assets.length || fullStageHeight <= 0) {
+    if (!stageRef.current || !orderedAssets.length || fullStageHeight <= 0) {
       setEstimatedSize(null)
       setIsEstimating(false)
       return
@@ -385,7 +1243,7 @@ function App() {
       }
 
       try {
-        const previewUrl = stageRef.current.toDataURL({ mimeType: 'image/jpeg', quality: compressionQuality })
+        const previewUrl = stageRef.current.toDataURL({ mimeType: exportFormatInfo.mimeType, quality: compressionQuality })
         if (cancelled) {
           return
         }
@@ -408,7 +1266,25 @@ function App() {
       cancelled = true
       window.clearTimeout(timeout)
     }
-  }, [assets, compressionQuality, stageScaleFactor, liveScale, collageHeight, footerEnabled, footerText, fullStageHeight])
+  }, [
+    orderedAssets,
+    exportFormatInfo,
+    compressionQuality,
+    showTransparentFrame,
+    stageScaleFactor,
+    liveScale,
+    collageHeight,
+    footerEnabled,
+    footerText,
+    captionSubtitle,
+    captionDesign,
+    tileLabels,
+    loadedFonts,
+    tileAdjustments,
+    fullStageHeight,
+    collageStyle,
+    backdrop,
+  ])
 
     const assetMap = useMemo(() => {
       return assets.reduce<Record<string, PhotoAsset>>((acc, asset) => {
@@ -416,8 +1292,34 @@ function App() {
         return acc
       }, {})
     }, [assets])
+    const cropFractions = useMemo(() => {
+      if (!targetCollageHeight) {
+        return []
+      }
+      const photoMap = new Map(layoutPhotos.map((photo) => [photo.id, photo]))
+      return layout.items.map((item) => {
+        const photo = photoMap.get(item.id)
+        return { item, fraction: photo ? getCropFraction(item, photo) : 0 }
+      })
+    }, [layoutPhotos, layout, targetCollageHeight])
+    // Bands are in collage coordinates; strips sit under the photo, overlays on its bottom edge.
+    const tileLabelItems = useMemo(() => {
+      if (tileLabels.mode === 'off') {
+        return []
+      }
+      return layout.items.flatMap((item) => {
+        const asset = assetMap[item.id]
+        const text = asset ? getTileLabel(tileLabels, asset) : ''
+        return text ? [{ item, text, band: getTileLabelBand(tileLabels, item) }] : []
+      })
+    }, [layout, assetMap, tileLabels])
+    const cropBadges = cropFractions.filter(({ fraction }) => fraction >= CROP_BADGE_THRESHOLD)
+    const averageCrop = cropFractions.length
+      ? cropFractions.reduce((sum, { fraction }) => sum + fraction, 0) / cropFractions.length
+      : 0
     const estimatedSizeLabel = isEstimating ? 'Estimating…' : estimatedSize ? formatBytes(estimatedSize) : '—'
     const hasAssets = assets.length > 0
+    const editingAsset = editingId ? assetMap[editingId] ?? null : null
 
     const renderPrivacyNote = (alignment: 'left' | 'right' | 'center' = 'left') => (
       <Typography
@@ -445,7 +1347,7 @@ function App() {
           display: { xs: 'none', sm: 'block' },
         }}
       >
-        or drop images anywhere
+        or drop images or folders anywhere, or paste an image
       </Typography>
     )
 
@@ -470,148 +1372,852 @@ function App() {
         }}
       >
         {size === 'large' ? 'Choose Photos' : 'Add Photos'}
-        <input hidden accept="image/*" multiple type="file" onChange={handleFiles} />
+        <input hidden accept={IMPORT_ACCEPT} multiple type="file" onChange={(event) => handleFiles(event, 'append')} />
       </Button>
     )
 
-  const processFiles = async (incoming: File[]) => {
+  // Keeps the source files so the session survives a reload; the collage works without it.
+  const persistPhotoFiles = async (batch: PhotoAsset[]) => {
+    if (!persistPhotosRef.current) {
+      return
+    }
+    try {
+      if (!(await hasStorageFor(batch.reduce((sum, asset) => sum + asset.file.size, 0)))) {
+        persistPhotosRef.current = false
+        setSnackbar('Browser storage is full, so this collage won’t survive a reload.')
+        return
+      }
+      await storePhotoFiles(
+        batch.map(({ id, file }) => ({ id, name: file.name, lastModified: file.lastModified, blob: file })),
+      )
+    } catch (error) {
+      console.warn('Unable to store photos for the session', error)
+      persistPhotosRef.current = false
+    }
+  }
+
+  const applySessionSettings = (settings: Partial<SessionSettings>) => {
+    if (settings.layoutMode !== undefined) setLayoutMode(settings.layoutMode)
+    if (settings.columns !== undefined) setColumns(settings.columns)
+    if (settings.gridAspect !== undefined) setGridAspect(settings.gridAspect)
+    if (settings.rowHeight !== undefined) setRowHeight(settings.rowHeight)
+    if (settings.balancedRows !== undefined) setBalancedRows(settings.balancedRows)
+    if (settings.outputTarget !== undefined) setOutputTarget(settings.outputTarget)
+    if (settings.customWidth !== undefined) setCustomWidth(settings.customWidth)
+    if (settings.customHeight !== undefined) setCustomHeight(settings.customHeight)
+    if (settings.footerEnabled !== undefined) setFooterEnabled(settings.footerEnabled)
+    if (settings.captionTemplate !== undefined) setCaptionTemplate(settings.captionTemplate)
+    if (settings.customFooterText !== undefined) setCustomFooterText(settings.customFooterText)
+    if (settings.captionSubtitle !== undefined) setCaptionSubtitle(settings.captionSubtitle)
+    if (settings.captionDesign !== undefined) setCaptionDesign(settings.captionDesign)
+    if (settings.tileLabels !== undefined) setTileLabels(settings.tileLabels)
+    if (settings.adjustments !== undefined) setAdjustments(settings.adjustments)
+    if (settings.compressionPreset !== undefined) setCompressionPreset(settings.compressionPreset)
+    if (settings.exportFormat !== undefined && supportedExportFormats.includes(settings.exportFormat)) {
+      setExportFormat(settings.exportFormat)
+    }
+    if (settings.transparentBackground !== undefined) setTransparentBackground(settings.transparentBackground)
+    if (settings.sizeLimitEnabled !== undefined) setSizeLimitEnabled(settings.sizeLimitEnabled)
+    if (settings.sizeLimitMb !== undefined) setSizeLimitMb(settings.sizeLimitMb)
+    if (settings.sortMode !== undefined) setSortMode(settings.sortMode)
+    if (settings.sortDescending !== undefined) setSortDescending(settings.sortDescending)
+    if (settings.shuffleSeed !== undefined) setShuffleSeed(settings.shuffleSeed)
+    if (settings.collageStyle !== undefined) setCollageStyle(settings.collageStyle)
+  }
+
+  const resumeSession = async () => {
+    if (importingRef.current) {
+      setSnackbar('Wait for the current import to finish.')
+      return
+    }
+    importingRef.current = true
+    setIsProcessing(true)
+    try {
+      const session = await loadSession<unknown>()
+      if (!session?.photos.length) {
+        setSavedSession(null)
+        setSnackbar('The saved collage could not be found.')
+        return
+      }
+
+      // A resumed collage is where undo starts, like a freshly opened one.
+      history.clear()
+      history.coalesce('resume')
+      applySessionSettings(sanitizeSessionSettings(session.settings))
+      const maxImages = isMobile() ? MAX_IMAGES_MOBILE : MAX_IMAGES_DESKTOP
+      const batchSize = isMobile() ? BATCH_SIZE_MOBILE : BATCH_SIZE_DESKTOP
+      // Restored photos join whatever is already on the canvas, so only the room left
+      // under the limit is filled; the rest are reported alongside any that no longer decode.
+      const remaining = Math.max(0, maxImages - assetsRef.current.length)
+      const photos = session.photos.slice(0, remaining)
+      const skipped = session.photos.slice(remaining).map(({ file }) => file.name)
+      for (let i = 0; i < photos.length; i += batchSize) {
+        const batch = photos.slice(i, i + batchSize)
+        const settled = await Promise.allSettled(
+          batch.map(async ({ id, span, edits, caption, file }) => {
+            const source = new File([file.blob], file.name, { type: file.blob.type, lastModified: file.lastModified })
+            // Sessions saved before adjustments existed have none in their edits.
+            const restoredEdits = { ...edits, adjustments: sanitizeAdjustments(edits.adjustments) }
+            return { ...(await readFileAsAsset(source, id)), span, edits: restoredEdits, caption: caption ?? null }
+          }),
+        )
+        const restored = settled.flatMap((result, index) => {
+          if (result.status === 'fulfilled') {
+            return [result.value]
+          }
+          console.warn(`Unable to restore ${batch[index].file.name}`, result.reason)
+          skipped.push(batch[index].file.name)
+          return []
+        })
+        history.coalesce('resume')
+        setAssets((current) => [...current, ...restored])
+      }
+      setSavedSession(null)
+      if (skipped.length) {
+        setSnackbar(describeSkippedFiles(skipped))
+      }
+    } catch (error) {
+      console.error('Unable to resume the saved session', error)
+      setSnackbar('The saved collage could not be restored.')
+    } finally {
+      importingRef.current = false
+      setIsProcessing(false)
+    }
+  }
+
+  const discardSession = async () => {
+    setSavedSession(null)
+    try {
+      await clearSession()
+    } catch (error) {
+      console.warn('Unable to discard the saved session', error)
+    }
+  }
+
+  const saveProject = async () => {
+    if (!assetsRef.current.length) {
+      return
+    }
+    setIsProcessing(true)
+    try {
+      const blob = await writeProject(
+        sessionSettings,
+        assetsRef.current.map(({ id, file, span, edits, caption }) => ({
+          id,
+          name: file.name,
+          type: file.type,
+          lastModified: file.lastModified,
+          span,
+          edits,
+          caption,
+          file,
+        })),
+      )
+      downloadBlob(blob, `onepic-${format(new Date(), 'yyyy-MM-dd')}.${PROJECT_EXTENSION}`)
+    } catch (error) {
+      console.error('Unable to save the project', error)
+      setSnackbar(error instanceof Error ? error.message : 'The project could not be saved.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  // Opening replaces the canvas: the project carries its own settings and photo order.
+  const openProject = async (event: ChangeEvent<HTMLInputElement>) => {
+    const projectFile = event.target.files?.[0]
+    event.target.value = ''
+    if (!projectFile) {
+      return
+    }
+    // Opening counts against the photo limit like an import, so it takes the same lock.
+    if (importingRef.current) {
+      setSnackbar('Wait for the current import to finish.')
+      return
+    }
+
+    importingRef.current = true
+    setIsProcessing(true)
+    try {
+      const project = await readProject(projectFile, isMobile() ? MAX_IMAGES_MOBILE : MAX_IMAGES_DESKTOP)
+
+      // The previous canvas and its history are released once the project replaces them.
+      history.clear()
+      history.coalesce('open-project')
+      setAssets([])
+      setEditingId(null)
+      setSavedSession(null)
+      persistPhotosRef.current = true
+      applySessionSettings(sanitizeSessionSettings(project.settings))
+
+      const batchSize = isMobile() ? BATCH_SIZE_MOBILE : BATCH_SIZE_DESKTOP
+      // Photos this browser can't decode are reported; the rest of the project still opens.
+      const skipped: string[] = []
+      for (let i = 0; i < project.photos.length; i += batchSize) {
+        const batch = project.photos.slice(i, i + batchSize)
+        const settled = await Promise.allSettled(
+          batch.map(async ({ id, span, edits, caption, file }) => ({
+            ...(await readFileAsAsset(file, id)),
+            span,
+            edits,
+            caption,
+          })),
+        )
+        const opened = settled.flatMap((result, index) => {
+          if (result.status === 'fulfilled') {
+            return [result.value]
+          }
+          console.warn(`Unable to open ${batch[index].file.name}`, result.reason)
+          skipped.push(batch[index].file.name)
+          return []
+        })
+        history.coalesce('open-project')
+        setAssets((current) => [...current, ...opened])
+        await persistPhotoFiles(opened)
+      }
+      if (skipped.length) {
+        setSnackbar(describeSkippedFiles(skipped))
+      }
+    } catch (error) {
+      console.error('Unable to open the project', error)
+      setSnackbar(error instanceof Error ? error.message : 'The project could not be opened.')
+    } finally {
+      importingRef.current = false
+      setIsProcessing(false)
+    }
+  }
+
+  // Every import source ends up here. `unreadable` names sources that failed before
+  // becoming files (dead links), so they are reported together with everything else skipped.
+  // Imports run one at a time, since each counts the room left under the photo limit.
+  const processFiles = async (files: File[], mode: ImportMode = 'append', unreadable: string[] = []) => {
+    if (importingRef.current) {
+      setSnackbar('Wait for the current import to finish.')
+      return
+    }
+    importingRef.current = true
+    try {
+      await importFiles(files, mode, unreadable)
+    } finally {
+      importingRef.current = false
+    }
+  }
+
+  const importFiles = async (files: File[], mode: ImportMode, unreadable: string[]) => {
+    const { images: incoming, others } = partitionImageFiles(files)
+    const skipped = [...unreadable, ...others.map((file) => file.name)]
     if (!incoming.length) {
+      if (skipped.length) {
+        setSnackbar(describeSkippedFiles(skipped))
+      }
       return
     }
 
     const maxImages = isMobile() ? MAX_IMAGES_MOBILE : MAX_IMAGES_DESKTOP
     const batchSize = isMobile() ? BATCH_SIZE_MOBILE : BATCH_SIZE_DESKTOP
-    
-    const selected = incoming.slice(0, maxImages)
-    if (incoming.length > maxImages) {
-      setSnackbar(`Only the first ${maxImages} images were queued.`)
+    const existingCount = mode === 'replace' ? 0 : assetsRef.current.length
+    const remaining = Math.max(0, maxImages - existingCount)
+
+    if (!remaining) {
+      setSnackbar(`The collage already holds the maximum of ${maxImages} photos.`)
+      return
     }
 
+    // Rather than dropping whatever comes last, let the user keep the best photos that fit.
+    if (incoming.length > remaining) {
+      if (skipped.length) {
+        setSnackbar(describeSkippedFiles(skipped))
+      }
+      await startCulling(incoming, remaining, mode)
+      return
+    }
+
+    // Each import is a single undo step, however many batches it takes.
+    const importKey = `import-${Date.now()}`
+    // What the canvas will hold once the import lands, for the duplicate check.
+    let collage = mode === 'replace' ? [] : assetsRef.current
+    const importedIds = new Set<string>()
     setIsProcessing(true)
     try {
-      // Dispose existing assets first to free memory
-      disposeAssets(assetsRef.current)
-      setAssets([]) // Clear state immediately
-      
-      // Small delay to let garbage collection run
-      await new Promise(resolve => setTimeout(resolve, 100))
-      
-      const loaded: PhotoAsset[] = []
-      
+      if (mode === 'replace') {
+        // Replacing starts a fresh history so the old bitmaps can be released right away
+        history.clear()
+        history.coalesce(importKey)
+        setAssets([]) // Clear state immediately
+
+        // Small delay to let garbage collection run
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+
       // Batch processing with smaller batches on mobile
-      for (let i = 0; i < selected.length; i += batchSize) {
-        const batch = selected.slice(i, i + batchSize)
-        const batchResults = await Promise.all(
-          batch.map((file, index) => readFileAsAsset(file, i + index))
-        )
-        loaded.push(...batchResults)
-        // Update UI progressively
-        setAssets([...loaded])
+      for (let i = 0; i < incoming.length; i += batchSize) {
+        const batch = incoming.slice(i, i + batchSize)
+        // A file that fails to decode is reported at the end instead of stopping the import.
+        const settled = await Promise.allSettled(batch.map((file) => readFileAsAsset(file)))
+        const batchResults = settled.flatMap((result, index) => {
+          if (result.status === 'fulfilled') {
+            return [result.value]
+          }
+          console.warn(`Unable to import ${batch[index].name}`, result.reason)
+          skipped.push(batch[index].name)
+          return []
+        })
+        // Update UI progressively, appending after whatever is already on the canvas
+        history.coalesce(importKey)
+        setAssets((current) => [...current, ...batchResults])
+        collage = [...collage, ...batchResults]
+        batchResults.forEach((asset) => importedIds.add(asset.id))
+        await persistPhotoFiles(batchResults)
         
-        // Yield to browser between batches on mobile
-        if (isMobile()) {
+        // Yield to browser between batches on mobile; workers already keep the page responsive.
+        if (isMobile() && !supportsWorkerImaging) {
           await new Promise(resolve => setTimeout(resolve, 50))
         }
       }
+
+      setDuplicateGroups(findDuplicateGroups(collage, importedIds))
+      if (skipped.length) {
+        setSnackbar(describeSkippedFiles(skipped))
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unable to process images'
       setSnackbar(message)
+    } finally {
+      history.endCoalesce()
+      setIsProcessing(false)
+    }
+  }
+
+  // Scores the whole import on small copies, batch by batch, then lets the user choose.
+  const startCulling = async (files: File[], limit: number, mode: ImportMode) => {
+    const batchSize = isMobile() ? BATCH_SIZE_MOBILE : BATCH_SIZE_DESKTOP
+    const candidates: CullingCandidate[] = []
+    setIsProcessing(true)
+    try {
+      for (let i = 0; i < files.length; i += batchSize) {
+        candidates.push(...(await Promise.all(files.slice(i, i + batchSize).map(readCullingCandidate))))
+      }
+      setCulling({ files, candidates, limit, mode })
     } finally {
       setIsProcessing(false)
     }
   }
 
-  const handleFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+  const finishCulling = async (indices: number[] | null) => {
+    if (!culling) {
+      return
+    }
+    setCulling(null)
+    culling.candidates.forEach(({ image }) => {
+      if (image) {
+        releaseImageSource(image as CanvasSource)
+      }
+    })
+    if (indices) {
+      await processFiles(indices.map((index) => culling.files[index]), culling.mode)
+    }
+  }
+
+  // A single undo step brings all of them back.
+  const removeDuplicates = (ids: string[]) => {
+    const removed = new Set(ids)
+    setAssets((current) => current.filter((asset) => !removed.has(asset.id)))
+    setDuplicateGroups([])
+    setSnackbar(`Removed ${ids.length} duplicate photo${ids.length === 1 ? '' : 's'}.`)
+  }
+
+  const handleFiles = async (event: ChangeEvent<HTMLInputElement>, mode: ImportMode) => {
     const fileList = event.target.files
-    await processFiles(fileList ? Array.from(fileList) : [])
+    await processFiles(fileList ? Array.from(fileList) : [], mode)
     event.target.value = ''
   }
 
-  const handleDragEnter = (event: DragEvent<HTMLDivElement>) => {
-    event.preventDefault()
-    event.stopPropagation()
-    dragCounterRef.current += 1
-    if (!isDragOver) {
-      setIsDragOver(true)
+  // The native folder picker where there is one, otherwise the hidden `webkitdirectory` input.
+  const chooseFolder = async () => {
+    if (!supportsDirectoryPicker) {
+      folderInputRef.current?.click()
+      return
+    }
+    try {
+      const files = await pickDirectoryFiles()
+      if (files) {
+        await processFiles(files)
+      }
+    } catch (error) {
+      console.error('Unable to read the folder', error)
+      setSnackbar('The folder could not be read.')
+    }
+  }
+
+  const handleFolderFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const fileList = event.target.files
+    await processFiles(fileList ? sortFolderFiles(Array.from(fileList)) : [])
+    event.target.value = ''
+  }
+
+  const handleDragEnter = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    event.stopPropagation()
+    dragCounterRef.current += 1
+    if (!isDragOver) {
+      setIsDragOver(true)
+    }
+  }
+
+  const handleDragLeave = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    event.stopPropagation()
+    dragCounterRef.current = Math.max(0, dragCounterRef.current - 1)
+    if (dragCounterRef.current === 0) {
+      setIsDragOver(false)
+    }
+  }
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    event.stopPropagation()
+  }
+
+  const handleDrop = async (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    event.stopPropagation()
+    dragCounterRef.current = 0
+    setIsDragOver(false)
+    if (!event.dataTransfer) {
+      return
+    }
+    try {
+      const { files, unreadable } = await collectDroppedFiles(event.dataTransfer)
+      await processFiles(files, 'append', unreadable)
+    } catch (error) {
+      console.error('Unable to read the drop', error)
+      setSnackbar('The dropped files could not be read.')
+    }
+  }
+
+  // Pasting adds images (screenshots, copied photos) unless a field or dialog has the paste.
+  const handlePaste = useEffectEvent(async (event: ClipboardEvent) => {
+    const target = event.target as HTMLElement | null
+    if (
+      !event.clipboardData ||
+      target?.closest('input, textarea, [contenteditable="true"]') ||
+      isProcessing ||
+      editingId ||
+      culling ||
+      duplicateGroups.length
+    ) {
+      return
+    }
+    const { clipboardData } = event
+    if (!clipboardData.files.length && !clipboardData.types.includes('text/uri-list')) {
+      return
+    }
+    event.preventDefault()
+    const { files, unreadable } = await collectPastedFiles(clipboardData)
+    await processFiles(files, 'append', unreadable)
+  })
+
+  useEffect(() => {
+    const listener = (event: ClipboardEvent) => {
+      void handlePaste(event)
+    }
+    window.addEventListener('paste', listener)
+    return () => window.removeEventListener('paste', listener)
+  }, [])
+
+  // Rasterises one layer's region at `pixelScale` by shifting the stage, like the tiled export.
+  const rasterizeLayerRegion = async (
+    stage: Konva.Stage,
+    layer: Konva.Layer,
+    region: { x: number; y: number; width: number; height: number },
+    pixelScale: number,
+  ) => {
+    stage.scale({ x: pixelScale, y: pixelScale })
+    stage.position({ x: -region.x * pixelScale, y: -region.y * pixelScale })
+    const canvas = layer.toCanvas({
+      x: 0,
+      y: 0,
+      width: Math.ceil(region.width * pixelScale),
+      height: Math.ceil(region.height * pixelScale),
+      pixelRatio: 1,
+    })
+    const bitmap = await createImageBitmap(canvas)
+    canvas.width = 0
+    canvas.height = 0
+    return { bitmap, ...region }
+  }
+
+  // Describes the collage for the export worker. Tiles point at the preview's images;
+  // `exportInWorker` copies them into bitmaps of the worker's own.
+  const buildExportScene = async (stage: Konva.Stage, pixelScale: number) => {
+    const tiles: SourceTile[] = []
+    for (const item of layout.items) {
+      const asset = assetMap[item.id]
+      if (!asset) {
+        continue
+      }
+      const slot = getPhotoSlot(item)
+      const draw = resolveTileDraw(slot, asset, asset.edits)
+      tiles.push({
+        image: asset.image,
+        draw: { ...draw, x: draw.x + framePadding, y: draw.y + collageTop },
+        slot: { x: slot.x + framePadding, y: slot.y + collageTop, width: slot.width, height: slot.height },
+        cornerRadius: getTileRadius(collageStyle, slot.width, slot.height),
+        adjustments: tileAdjustments.get(item.id) ?? null,
+      })
+    }
+
+    const overlays: ExportScene['overlays'] = []
+    // Labels need the web fonts too, so each band is rasterised here like the caption.
+    if (tileLabelLayerRef.current) {
+      for (const { band } of tileLabelItems) {
+        overlays.push(
+          await rasterizeLayerRegion(
+            stage,
+            tileLabelLayerRef.current,
+            { ...band, x: band.x + framePadding, y: band.y + collageTop },
+            pixelScale,
+          ),
+        )
+      }
+    }
+    if (footerEnabled && footerLayerRef.current) {
+      overlays.push(
+        await rasterizeLayerRegion(
+          stage,
+          footerLayerRef.current,
+          { x: framePadding, y: captionTop, width: EXPORT_WIDTH, height: captionHeight },
+          pixelScale,
+        ),
+      )
+    }
+
+    let fill: SceneFill = { type: 'color', color: collageStyle.color }
+    if (backdrop) {
+      // Transferred to the worker, which closes it.
+      fill = { type: 'image', bitmap: await createImageBitmap(backdrop.canvas) }
+    } else if (collageStyle.background === 'gradient') {
+      fill = { type: 'gradient', ...gradientLine, from: collageStyle.gradientFrom, to: collageStyle.gradientTo }
+    }
+
+    const scene: ExportScene = {
+      width: fullExportWidth,
+      height: fullStageHeight,
+      frame: showTransparentFrame ? null : { fill, stroke: FRAME_STROKE, strokeWidth: FRAME_STROKE_WIDTH },
+      shadow: tileShadow,
+      overlays,
+    }
+    return { scene, tiles }
+  }
+
+  const handleDownload = async () => {
+    if (!stageRef.current || !assets.length) {
+      setSnackbar('Add photos before exporting your recap.')
+      return
+    }
+
+    const stage = stageRef.current
+    const previousScale = stage.scale()
+    const previousSize = stage.size()
+    const previousPosition = stage.position()
+
+    setIsProcessing(true)
+
+    try {
+      if (loadedFonts !== fontsKey) {
+        await loadFonts()
+        footerLayerRef.current?.draw()
+        tileLabelLayerRef.current?.draw()
+      }
+
+      const exportCollage = async (): Promise<{ blob: Blob; scale: number; quality: number }> => {
+        if (sizeLimitBytes) {
+          return attemptExportUnderSize(
+            stage,
+            fullExportWidth,
+            fullStageHeight,
+            exportOutputScale,
+            exportFormatInfo.mimeType,
+            compressionQuality,
+            resolveMinimumQuality(exportFormat),
+            sizeLimitBytes,
+            setProcessingMessage
+          )
+        }
+
+        // A single canvas would have to be downscaled here, so stream full-size strips instead.
+        const outputWidth = fullExportWidth * exportOutputScale
+        const outputHeight = fullStageHeight * exportOutputScale
+        if (
+          exportFormat === 'jpeg' &&
+          getSafeExportScale(outputWidth, outputHeight) < 1 &&
+          Math.max(outputWidth, outputHeight) <= MAX_JPEG_DIMENSION
+        ) {
+          try {
+            const blob = await attemptTiledJpegExport(
+              stage,
+              fullExportWidth,
+              fullStageHeight,
+              exportOutputScale,
+              compressionQuality,
+              setProcessingMessage
+            )
+            return { blob, scale: 1, quality: compressionQuality }
+          } catch (error) {
+            console.warn('Tiled export failed, falling back to a scaled single canvas:', error)
+            stage.position(previousPosition)
+          }
+        }
+
+        if (supportsWorkerImaging) {
+          const scales = getExportScales(fullExportWidth, fullStageHeight, exportOutputScale)
+          const { scene, tiles } = await buildExportScene(stage, exportOutputScale * scales[0])
+          try {
+            const result = await exportInWorker(
+              {
+                scene,
+                outputScale: exportOutputScale,
+                scales,
+                mimeType: exportFormatInfo.mimeType,
+                quality: compressionQuality,
+              },
+              tiles,
+              setProcessingMessage
+            )
+            return { ...result, quality: compressionQuality }
+          } catch (error) {
+            console.warn('Worker export failed, rendering on the main thread:', error)
+          } finally {
+            stage.position(previousPosition)
+          }
+        }
+
+        const result = await attemptExport(
+          stage,
+          fullExportWidth,
+          fullStageHeight,
+          exportOutputScale,
+          exportFormatInfo.mimeType,
+          compressionQuality,
+          setProcessingMessage
+        )
+        return { ...result, quality: compressionQuality }
+      }
+
+      const { blob, scale, quality } = await exportCollage()
+
+      downloadBlob(blob, `onepic-${format(new Date(), 'yyyy-MM-dd')}.${exportFormatInfo.extension}`)
+
+      if (sizeLimitBytes) {
+        const width = Math.round(fullExportWidth * exportOutputScale * scale)
+        const height = Math.round(fullStageHeight * exportOutputScale * scale)
+        const qualityLabel = exportFormatInfo.lossless ? 'lossless' : `${Math.round(quality * 100)}% quality`
+        setSnackbar(`Saved ${formatMegabytes(blob.size)} at ${qualityLabel}, ${width} × ${height} px.`)
+      } else if (scale < 0.9) {
+        const pct = Math.round(scale * 100)
+        setSnackbar(`Exported at ${pct}% resolution to fit device memory limits.`)
+      }
+    } catch (error) {
+      console.error('Export failed:', error)
+      setSnackbar(`${exportFormatInfo.label} export failed. Try with fewer photos, lower quality or another format.`)
+    } finally {
+      // Restore stage to preview state
+      stage.scale(previousScale)
+      stage.size(previousSize)
+      stage.position(previousPosition)
+      cacheAdjustedTiles(stage, previewPixelRatio)
+      stage.batchDraw()
+      setProcessingMessage(null)
+      setIsProcessing(false)
+    }
+  }
+
+  const getDropIndex = () => {
+    const pointer = stageRef.current?.getRelativePointerPosition()
+    if (!pointer) {
+      return -1
+    }
+    return findDropIndex(layout.items, { x: pointer.x - framePadding, y: pointer.y - collageTop })
+  }
+
+  const clearLongPress = () => {
+    if (longPressRef.current) {
+      clearTimeout(longPressRef.current)
+      longPressRef.current = null
+    }
+    longPressOriginRef.current = null
+  }
+
+  const handleTileTouchMove = (event: KonvaEventObject<TouchEvent>) => {
+    const origin = longPressOriginRef.current
+    const touch = event.evt.touches[0]
+    if (!origin || !touch) {
+      return
+    }
+    if (Math.hypot(touch.clientX - origin.x, touch.clientY - origin.y) > LONG_PRESS_TOLERANCE) {
+      clearLongPress()
+    }
+  }
+
+  const setStageCursor = (cursor: string) => {
+    const container = stageRef.current?.container()
+    if (container) {
+      container.style.cursor = cursor
+    }
+  }
+
+  // On touch devices tiles are not draggable until a long press arms them, otherwise
+  // the preview would swallow every swipe meant to scroll the page.
+  const handleTileTouchStart = (event: KonvaEventObject<TouchEvent>) => {
+    if (!touchReorder) {
+      return
+    }
+    const node = event.target
+    const touch = event.evt.touches[0]
+    clearLongPress()
+    longPressOriginRef.current = touch ? { x: touch.clientX, y: touch.clientY } : null
+    longPressRef.current = setTimeout(() => {
+      longPressRef.current = null
+      longPressOriginRef.current = null
+      node.preventDefault(true)
+      node.draggable(true)
+      node.startDrag(event)
+    }, LONG_PRESS_DELAY)
+  }
+
+  const handleTileDragStart = (event: KonvaEventObject<globalThis.DragEvent>, id: string) => {
+    event.target.moveToTop()
+    event.target.opacity(0.8)
+    setStageCursor('grabbing')
+    setReorderState({ id, targetIndex: orderedAssets.findIndex((asset) => asset.id === id) })
+  }
+
+  const handleTileDragMove = () => {
+    const targetIndex = getDropIndex()
+    setReorderState((current) =>
+      current && current.targetIndex !== targetIndex && targetIndex !== -1
+        ? { ...current, targetIndex }
+        : current,
+    )
+  }
+
+  const handleTileDragEnd = (event: KonvaEventObject<globalThis.DragEvent>, item: LayoutItem) => {
+    const node = event.target
+    const targetIndex = getDropIndex()
+    const fromIndex = orderedAssets.findIndex((asset) => asset.id === item.id)
+
+    // Snap back to the current slot (tiles are positioned by their centre); the reordered
+    // layout moves the tile if needed.
+    node.position({ x: item.x + item.width / 2 + framePadding, y: item.y + item.height / 2 + collageTop })
+    node.opacity(1)
+    if (touchReorder) {
+      node.draggable(false)
+      node.preventDefault(false)
     }
-  }
+    setStageCursor('grab')
+    setReorderState(null)
 
-  const handleDragLeave = (event: DragEvent<HTMLDivElement>) => {
-    event.preventDefault()
-    event.stopPropagation()
-    dragCounterRef.current = Math.max(0, dragCounterRef.current - 1)
-    if (dragCounterRef.current === 0) {
-      setIsDragOver(false)
+    if (fromIndex !== -1 && targetIndex !== -1 && fromIndex !== targetIndex) {
+      // Dragging takes over from any active sort: freeze its order and continue manually.
+      setAssets(moveItem(orderedAssets, fromIndex, targetIndex))
+      setSortMode('manual')
     }
   }
 
-  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
-    event.preventDefault()
-    event.stopPropagation()
+  const applyPhotoEdits = (edits: PhotoEdits, caption: string | null) => {
+    setAssets((current) => current.map((asset) => (asset.id === editingId ? { ...asset, edits, caption } : asset)))
+    setEditingId(null)
   }
 
-  const handleDrop = async (event: DragEvent<HTMLDivElement>) => {
-    event.preventDefault()
-    event.stopPropagation()
-    dragCounterRef.current = 0
-    setIsDragOver(false)
-    const files = event.dataTransfer?.files
-    await processFiles(files ? Array.from(files) : [])
-    event.dataTransfer?.clearData()
+  const updateCollageStyle = (patch: Partial<CollageStyle>, coalesceKey?: string) => {
+    if (coalesceKey) {
+      history.coalesce(`style-${coalesceKey}`)
+    }
+    setCollageStyle((current) => ({ ...current, ...patch }))
   }
 
-  const handleDownload = async () => {
-    if (!stageRef.current || !assets.length) {
-      setSnackbar('Add photos before exporting your recap.')
-      return
+  const updateCaptionDesign = (patch: Partial<CaptionDesign>, coalesceKey?: string) => {
+    if (coalesceKey) {
+      history.coalesce(`caption-${coalesceKey}`)
     }
+    setCaptionDesign((current) => ({ ...current, ...patch }))
+  }
 
-    const stage = stageRef.current
-    const previousScale = stage.scale()
-    const previousSize = stage.size()
+  const updateAdjustments = (patch: Partial<PhotoAdjustments>, coalesceKey?: string) => {
+    if (coalesceKey) {
+      history.coalesce(`adjust-${coalesceKey}`)
+    }
+    setAdjustments((current) => ({ ...current, ...patch }))
+  }
 
-    setIsProcessing(true)
+  const updateTileLabels = (patch: Partial<TileLabelStyle>, coalesceKey?: string) => {
+    if (coalesceKey) {
+      history.coalesce(`labels-${coalesceKey}`)
+    }
+    setTileLabels((current) => ({ ...current, ...patch }))
+  }
 
-    try {
-      const { blob, scale } = await attemptExport(
-        stage,
-        fullExportWidth,
-        fullStageHeight,
-        compressionQuality,
-        (msg) => console.log(msg)
-      )
+  // Numbers follow the collage order the viewer sees, not the import order.
+  const numberPhotos = () => {
+    const positions = new Map(orderedAssets.map((asset, index) => [asset.id, index + 1]))
+    setAssets((current) => current.map((asset) => ({ ...asset, caption: String(positions.get(asset.id) ?? '') })))
+  }
 
-      const url = URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = `onepic-${format(new Date(), 'yyyy-MM-dd')}.jpg`
-      link.click()
+  const resetPhotoLabels = () => {
+    setAssets((current) => current.map((asset) => (asset.caption === null ? asset : { ...asset, caption: null })))
+  }
 
-      // Clean up blob URL after a short delay
-      setTimeout(() => URL.revokeObjectURL(url), 1000)
+  const toggleFeatured = (id: string) => {
+    setAssets((current) =>
+      current.map((asset) => (asset.id === id ? { ...asset, span: asset.span > 1 ? 1 : FEATURED_SPAN } : asset)),
+    )
+  }
 
-      if (scale < 0.9) {
-        const pct = Math.round(scale * 100)
-        setSnackbar(`Exported at ${pct}% resolution to fit device memory limits.`)
-      }
-    } catch (error) {
-      console.error('Export failed:', error)
-      setSnackbar('Export failed. Try with fewer photos or lower quality.')
-    } finally {
-      // Restore stage to preview state
-      stage.scale(previousScale)
-      stage.size(previousSize)
-      stage.batchDraw()
-      setIsProcessing(false)
+  // Once the grace period ends without an undo, the cleared photos leave the history (which
+  // releases their bitmaps) and the saved session goes with them.
+  const releaseClearedAssets = (cleared: PhotoAsset[]) => {
+    clearTimerRef.current = null
+    clearedRef.current = null
+    setClearUndoOpen(false)
+    const clearedImages = new Set(cleared.map((asset) => asset.image))
+    if (assetsRef.current.some((asset) => clearedImages.has(asset.image))) {
+      return
+    }
+    history.forget((snapshot) => snapshot.assets.some((asset) => clearedImages.has(asset.image)))
+    if (!assetsRef.current.length) {
+      clearSession().catch((error) => console.warn('Unable to clear the saved session', error))
     }
   }
 
   const resetState = () => {
-    if (assetsRef.current.length) {
-      disposeAssets(assetsRef.current)
+    const cleared = assetsRef.current
+    if (!cleared.length) {
+      return
     }
+    if (clearTimerRef.current) {
+      clearTimeout(clearTimerRef.current)
+    }
+    clearedRef.current = { assets: cleared, customFooterText }
     setAssets([])
-    setSnackbar('Canvas cleared. Ready for a new recap!')
+    setCustomFooterText(null)
+    persistPhotosRef.current = true
+    clearTimerRef.current = setTimeout(() => releaseClearedAssets(cleared), CLEAR_UNDO_GRACE)
+    setClearUndoOpen(true)
+  }
+
+  // Puts the cleared photos back as a step of its own, so settings changed since the clear stay.
+  const undoClear = () => {
+    setClearUndoOpen(false)
+    const cleared = clearedRef.current
+    if (!cleared || assetsRef.current.length || isProcessing) {
+      return
+    }
+    // Trimming the history may already have released the cleared photos.
+    if (!cleared.assets.every((asset) => liveImagesRef.current.has(asset.image))) {
+      setSnackbar('The cleared photos can no longer be restored.')
+      return
+    }
+    setAssets(cleared.assets)
+    setCustomFooterText(cleared.customFooterText)
   }
 
   return (
@@ -681,7 +2287,85 @@ function App() {
                   OnePic
                 </Typography>
                 <Stack direction="row" spacing={1} alignItems="center">
+                  {[
+                    { title: 'Undo', icon: <UndoRoundedIcon fontSize="small" />, enabled: canUndo, onClick: history.undo },
+                    { title: 'Redo', icon: <RedoRoundedIcon fontSize="small" />, enabled: canRedo, onClick: history.redo },
+                  ].map((action) => (
+                    // Keyboard shortcuts cover desktop; touch devices get buttons.
+                    <Tooltip key={action.title} title={action.title}>
+                      <Box component="span" sx={{ display: { xs: 'inline-flex', md: 'none' } }}>
+                        <IconButton
+                          onClick={action.onClick}
+                          size="small"
+                          disabled={!action.enabled}
+                          sx={{
+                            color: 'rgba(247,247,251,0.5)',
+                            '&:hover': { color: 'rgba(247,247,251,0.8)' },
+                          }}
+                        >
+                          {action.icon}
+                        </IconButton>
+                      </Box>
+                    </Tooltip>
+                  ))}
                   {renderSelectPhotosButton('small')}
+                  <Tooltip title="Add a folder">
+                    <span>
+                      <IconButton
+                        onClick={chooseFolder}
+                        size="small"
+                        disabled={isProcessing}
+                        sx={{
+                          color: 'rgba(247,247,251,0.5)',
+                          '&:hover': { color: 'rgba(247,247,251,0.8)' },
+                        }}
+                      >
+                        <DriveFolderUploadRoundedIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Replace all photos">
+                    <IconButton 
+                      component="label"
+                      size="small"
+                      sx={{ 
+                        color: 'rgba(247,247,251,0.5)',
+                        '&:hover': { color: 'rgba(247,247,251,0.8)' },
+                      }}
+                    >
+                      <PhotoLibraryRoundedIcon fontSize="small" />
+                      <input hidden accept={IMPORT_ACCEPT} multiple type="file" onChange={(event) => handleFiles(event, 'replace')} />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Open project">
+                    <IconButton 
+                      component="label"
+                      size="small"
+                      disabled={isProcessing}
+                      sx={{ 
+                        color: 'rgba(247,247,251,0.5)',
+                        '&:hover': { color: 'rgba(247,247,251,0.8)' },
+                      }}
+                    >
+                      <FolderOpenRoundedIcon fontSize="small" />
+                      <input hidden accept={`.${PROJECT_EXTENSION}`} type="file" onChange={openProject} />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Save project">
+                    <span>
+                      <IconButton 
+                        onClick={saveProject}
+                        size="small"
+                        disabled={isProcessing}
+                        sx={{ 
+                          color: 'rgba(247,247,251,0.5)',
+                          '&:hover': { color: 'rgba(247,247,251,0.8)' },
+                        }}
+                      >
+                        <SaveRoundedIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
                   <Tooltip title="Clear all">
                     <IconButton 
                       onClick={resetState}
@@ -725,6 +2409,64 @@ function App() {
                     </Typography>
                 </Stack>
                 {renderSelectPhotosButton('large')}
+                <Button
+                  color="inherit"
+                  size="small"
+                  startIcon={<DriveFolderUploadRoundedIcon />}
+                  disabled={isProcessing}
+                  onClick={chooseFolder}
+                  sx={{ textTransform: 'none', color: 'rgba(247,247,251,0.6)' }}
+                >
+                  Choose folder
+                </Button>
+                <Button
+                  component="label"
+                  color="inherit"
+                  size="small"
+                  startIcon={<FolderOpenRoundedIcon />}
+                  disabled={isProcessing}
+                  sx={{ textTransform: 'none', color: 'rgba(247,247,251,0.6)' }}
+                >
+                  Open project
+                  <input hidden accept={`.${PROJECT_EXTENSION}`} type="file" onChange={openProject} />
+                </Button>
+                {savedSession && !isProcessing && (
+                  <Stack spacing={0.5} alignItems="center">
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Button
+                        variant="outlined"
+                        color="inherit"
+                        startIcon={<HistoryRoundedIcon />}
+                        onClick={resumeSession}
+                        sx={{
+                          borderRadius: 2,
+                          textTransform: 'none',
+                          fontWeight: 600,
+                          borderColor: 'rgba(255,255,255,0.15)',
+                          color: 'rgba(247,247,251,0.85)',
+                        }}
+                      >
+                        Resume last collage
+                      </Button>
+                      <Tooltip title="Discard saved collage">
+                        <IconButton
+                          size="small"
+                          onClick={discardSession}
+                          sx={{
+                            color: 'rgba(247,247,251,0.5)',
+                            '&:hover': { color: 'rgba(247,247,251,0.8)' },
+                          }}
+                        >
+                          <DeleteOutlineRoundedIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </Stack>
+                    <Typography variant="caption" sx={{ color: 'rgba(247,247,251,0.45)', fontSize: '0.7rem' }}>
+                      {savedSession.photoCount} photo{savedSession.photoCount === 1 ? '' : 's'} · saved{' '}
+                      {formatDistanceToNow(savedSession.savedAt, { addSuffix: true })}
+                    </Typography>
+                  </Stack>
+                )}
                 <Stack spacing={0.5} alignItems="center">
                   {renderDropHint('center')}
                   {renderPrivacyNote('center')}
@@ -780,8 +2522,91 @@ function App() {
                       >
                         <ToggleButton value="masonry">Masonry</ToggleButton>
                         <ToggleButton value="justified">Justified</ToggleButton>
+                        <ToggleButton value="grid">Grid</ToggleButton>
                       </ToggleButtonGroup>
-                      {layoutMode === 'masonry' ? (
+                      <TextField
+                        select
+                        size="small"
+                        label="Canvas"
+                        value={outputTarget}
+                        onChange={(event) => setOutputTarget(event.target.value as OutputTarget)}
+                        sx={{
+                          '& .MuiInputLabel-root': { fontSize: '0.8rem', color: 'rgba(247,247,251,0.5)' },
+                          '& .MuiOutlinedInput-root': {
+                            fontSize: '0.8rem',
+                            color: '#f7f7fb',
+                            '& fieldset': { borderColor: 'rgba(255,255,255,0.1)' },
+                            '&:hover fieldset': { borderColor: 'rgba(255,255,255,0.2)' },
+                            '&.Mui-focused fieldset': { borderColor: 'rgba(32,213,184,0.5)' },
+                          },
+                        }}
+                      >
+                        {Object.entries(outputTargets).map(([key, option]) => (
+                          <MenuItem key={key} value={key} sx={{ fontSize: '0.85rem' }}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                      {outputTarget === 'custom' && (
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          {[
+                            { label: 'Width', value: customWidth, onChange: setCustomWidth },
+                            { label: 'Height', value: customHeight, onChange: setCustomHeight },
+                          ].map((field) => (
+                            <TextField
+                              key={field.label}
+                              size="small"
+                              type="number"
+                              label={field.label}
+                              value={field.value}
+                              onChange={(event) => {
+                                history.coalesce(`custom-${field.label}`)
+                                field.onChange(Number(event.target.value))
+                              }}
+                              onBlur={() => {
+                                field.onChange(clampNumber(field.value, MIN_CUSTOM_SIDE, MAX_CUSTOM_SIDE))
+                                history.endCoalesce()
+                              }}
+                              slotProps={{
+                                htmlInput: { min: MIN_CUSTOM_SIDE, max: MAX_CUSTOM_SIDE, step: 10 },
+                                input: { endAdornment: <InputAdornment position="end">px</InputAdornment> },
+                              }}
+                              sx={{
+                                flex: 1,
+                                '& .MuiInputLabel-root': { fontSize: '0.8rem', color: 'rgba(247,247,251,0.5)' },
+                                '& .MuiOutlinedInput-root': {
+                                  fontSize: '0.8rem',
+                                  color: '#f7f7fb',
+                                  '& fieldset': { borderColor: 'rgba(255,255,255,0.1)' },
+                                  '&:hover fieldset': { borderColor: 'rgba(255,255,255,0.2)' },
+                                  '&.Mui-focused fieldset': { borderColor: 'rgba(32,213,184,0.5)' },
+                                },
+                              }}
+                            />
+                          ))}
+                        </Stack>
+                      )}
+                      {targetCollageHeight ? (
+                        <Box>
+                          <Typography 
+                            variant="caption" 
+                            sx={{ fontSize: '0.7rem', color: 'rgba(247,247,251,0.5)' }}
+                          >
+                            {layout.rowHeight
+                              ? `Fitted to canvas · ~${Math.round(layout.rowHeight)}px rows`
+                              : `Fitted to canvas · ${layout.columns ?? 1} columns`}
+                            {' · '}
+                            {Math.round(averageCrop * 100)}% cropped on average
+                          </Typography>
+                          {isCanvasHeightRaised && (
+                            <Typography variant="caption" sx={{ display: 'block', fontSize: '0.7rem', color: '#f4c95d' }}>
+                              Too wide to fit the frame and caption, so it exports at{' '}
+                              {Math.round(fullExportWidth * exportOutputScale)} ×{' '}
+                              {Math.round(fullStageHeight * exportOutputScale)} px.
+                            </Typography>
+                          )}
+                        </Box>
+                      ) : layoutMode !== 'justified' ? (
                         <Box>
                           <Typography 
                             variant="caption" 
@@ -791,13 +2616,45 @@ function App() {
                           </Typography>
                           <Slider
                             value={columns}
-                            min={2}
-                            max={6}
+                            min={MIN_COLUMNS}
+                            max={MAX_COLUMNS}
                             step={1}
                             size="small"
-                            onChange={(_event, value) => setColumns(value as number)}
+                            onChange={(_event, value) => {
+                              history.coalesce('columns')
+                              setColumns(value as number)
+                            }}
+                            onChangeCommitted={history.endCoalesce}
                             sx={{ mt: 0.5 }}
                           />
+                          {layoutMode === 'grid' && (
+                            <ToggleButtonGroup
+                              exclusive
+                              size="small"
+                              color="primary"
+                              value={gridAspect}
+                              onChange={(_event, value: GridAspectPreset | null) => {
+                                if (value) {
+                                  setGridAspect(value)
+                                }
+                              }}
+                              sx={{
+                                '& .MuiToggleButton-root': {
+                                  fontSize: '0.7rem',
+                                  py: 0.25,
+                                  px: 1.25,
+                                  textTransform: 'none',
+                                  fontWeight: 500,
+                                },
+                              }}
+                            >
+                              {Object.entries(gridAspectPresets).map(([key, option]) => (
+                                <ToggleButton key={key} value={key}>
+                                  {option.label}
+                                </ToggleButton>
+                              ))}
+                            </ToggleButtonGroup>
+                          )}
                         </Box>
                       ) : (
                         <Box>
@@ -809,15 +2666,87 @@ function App() {
                           </Typography>
                           <Slider
                             value={rowHeight}
-                            min={220}
-                            max={480}
+                            min={MIN_ROW_HEIGHT}
+                            max={MAX_ROW_HEIGHT}
                             step={20}
                             size="small"
-                            onChange={(_event, value) => setRowHeight(value as number)}
+                            onChange={(_event, value) => {
+                              history.coalesce('row-height')
+                              setRowHeight(value as number)
+                            }}
+                            onChangeCommitted={history.endCoalesce}
                             sx={{ mt: 0.5 }}
                           />
+                          <Stack direction="row" alignItems="center" justifyContent="space-between">
+                            <Typography 
+                              variant="caption" 
+                              sx={{ fontSize: '0.7rem', color: 'rgba(247,247,251,0.5)' }}
+                            >
+                              Balanced rows
+                            </Typography>
+                            <Switch
+                              size="small"
+                              checked={balancedRows}
+                              onChange={(_event, checked) => setBalancedRows(checked)}
+                            />
+                          </Stack>
                         </Box>
                       )}
+                      <Stack direction="row" spacing={0.5} alignItems="center">
+                        <TextField
+                          select
+                          size="small"
+                          label="Arrange by"
+                          value={sortMode}
+                          onChange={(event) => setSortMode(event.target.value as SortMode)}
+                          sx={{
+                            flex: 1,
+                            '& .MuiInputLabel-root': { fontSize: '0.8rem', color: 'rgba(247,247,251,0.5)' },
+                            '& .MuiOutlinedInput-root': {
+                              fontSize: '0.8rem',
+                              color: '#f7f7fb',
+                              '& fieldset': { borderColor: 'rgba(255,255,255,0.1)' },
+                              '&:hover fieldset': { borderColor: 'rgba(255,255,255,0.2)' },
+                              '&.Mui-focused fieldset': { borderColor: 'rgba(32,213,184,0.5)' },
+                            },
+                          }}
+                        >
+                          {Object.entries(sortModes).map(([key, option]) => (
+                            <MenuItem key={key} value={key} sx={{ fontSize: '0.85rem' }}>
+                              {option.label}
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                        {sortModes[sortMode].directional && (
+                          <Tooltip title={sortDescending ? 'Descending' : 'Ascending'}>
+                            <IconButton
+                              size="small"
+                              onClick={() => setSortDescending((value) => !value)}
+                              sx={{
+                                color: 'rgba(247,247,251,0.5)',
+                                transform: sortDescending ? 'scaleY(-1)' : 'none',
+                                '&:hover': { color: 'rgba(247,247,251,0.8)' },
+                              }}
+                            >
+                              <SwapVertRoundedIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                        {sortMode === 'shuffle' && (
+                          <Tooltip title="Shuffle again">
+                            <IconButton
+                              size="small"
+                              onClick={() => setShuffleSeed((seed) => (seed + 1) % 2 ** 31)}
+                              sx={{
+                                color: 'rgba(247,247,251,0.5)',
+                                '&:hover': { color: 'rgba(247,247,251,0.8)' },
+                              }}
+                            >
+                              <ShuffleRoundedIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </Stack>
                     </Stack>
                     <Divider flexItem orientation="vertical" sx={{ display: { xs: 'none', md: 'block' }, borderColor: 'rgba(255,255,255,0.06)' }} />
                     <Stack spacing={1.5} flex={1}>
@@ -842,10 +2771,34 @@ function App() {
                       </Stack>
                       <TextField
                         size="small"
+                        multiline
+                        maxRows={4}
                         placeholder="Add a title or date..."
                         disabled={!footerEnabled}
                         value={footerText}
-                        onChange={(event) => setFooterText(event.target.value)}
+                        onChange={(event) => {
+                          history.coalesce('caption')
+                          setCustomFooterText(event.target.value)
+                        }}
+                        onBlur={history.endCoalesce}
+                        slotProps={{
+                          input: {
+                            endAdornment: customFooterText !== null && (
+                              <InputAdornment position="end">
+                                <Tooltip title="Use automatic caption">
+                                  <IconButton
+                                    size="small"
+                                    edge="end"
+                                    onClick={() => setCustomFooterText(null)}
+                                    sx={{ color: 'rgba(247,247,251,0.5)' }}
+                                  >
+                                    <AutoAwesomeRoundedIcon sx={{ fontSize: '1rem' }} />
+                                  </IconButton>
+                                </Tooltip>
+                              </InputAdornment>
+                            ),
+                          },
+                        }}
                         sx={{
                           '& .MuiOutlinedInput-root': {
                             fontSize: '0.85rem',
@@ -857,9 +2810,112 @@ function App() {
                           },
                         }}
                       />
+                      <TextField
+                        size="small"
+                        multiline
+                        maxRows={3}
+                        placeholder="Subtitle (optional)"
+                        disabled={!footerEnabled}
+                        value={captionSubtitle}
+                        onChange={(event) => {
+                          history.coalesce('caption-subtitle')
+                          setCaptionSubtitle(event.target.value)
+                        }}
+                        onBlur={history.endCoalesce}
+                        sx={{
+                          '& .MuiOutlinedInput-root': {
+                            fontSize: '0.8rem',
+                            color: '#f7f7fb',
+                            '& fieldset': { borderColor: 'rgba(255,255,255,0.1)' },
+                            '&:hover fieldset': { borderColor: 'rgba(255,255,255,0.2)' },
+                            '&.Mui-focused fieldset': { borderColor: 'rgba(255,193,7,0.5)' },
+                            '&.Mui-disabled': { opacity: 0.4 },
+                          },
+                        }}
+                      />
+                      <TextField
+                        select
+                        size="small"
+                        label="Automatic caption"
+                        disabled={!footerEnabled}
+                        value={captionTemplate}
+                        onChange={(event) => {
+                          setCaptionTemplate(event.target.value as CaptionTemplate)
+                          setCustomFooterText(null)
+                        }}
+                        sx={{
+                          '& .MuiInputLabel-root': { fontSize: '0.8rem', color: 'rgba(247,247,251,0.5)' },
+                          '& .MuiOutlinedInput-root': {
+                            fontSize: '0.8rem',
+                            color: '#f7f7fb',
+                            '& fieldset': { borderColor: 'rgba(255,255,255,0.1)' },
+                            '&:hover fieldset': { borderColor: 'rgba(255,255,255,0.2)' },
+                            '&.Mui-focused fieldset': { borderColor: 'rgba(255,193,7,0.5)' },
+                            '&.Mui-disabled': { opacity: 0.4 },
+                          },
+                        }}
+                      >
+                        {Object.entries(captionTemplates).map(([key, option]) => (
+                          <MenuItem key={key} value={key} sx={{ fontSize: '0.85rem' }}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
                     </Stack>
                     <Divider flexItem orientation="vertical" sx={{ display: { xs: 'none', md: 'block' }, borderColor: 'rgba(255,255,255,0.06)' }} />
                     <Stack spacing={1.5} flex={1}>
+                      <Typography 
+                        variant="overline" 
+                        sx={{ 
+                          fontSize: '0.65rem', 
+                          color: 'rgba(247,247,251,0.4)',
+                          letterSpacing: '0.1em',
+                          fontWeight: 600,
+                        }}
+                      >
+                        Format
+                      </Typography>
+                      <ToggleButtonGroup
+                        exclusive
+                        size="small"
+                        value={exportFormat}
+                        color="secondary"
+                        onChange={(_event, value: ExportFormat | null) => {
+                          if (value) {
+                            setExportFormat(value)
+                          }
+                        }}
+                        sx={{
+                          '& .MuiToggleButton-root': {
+                            fontSize: '0.75rem',
+                            py: 0.5,
+                            px: 1.5,
+                            textTransform: 'none',
+                            fontWeight: 500,
+                          },
+                        }}
+                      >
+                        {supportedExportFormats.map((key) => (
+                          <ToggleButton key={key} value={key}>
+                            {exportFormats[key].label}
+                          </ToggleButton>
+                        ))}
+                      </ToggleButtonGroup>
+                      <Stack direction="row" alignItems="center" justifyContent="space-between">
+                        <Typography
+                          variant="caption"
+                          sx={{ fontSize: '0.75rem', color: 'rgba(247,247,251,0.6)', opacity: exportFormatInfo.supportsTransparency ? 1 : 0.4 }}
+                        >
+                          Transparent background
+                        </Typography>
+                        <Switch
+                          size="small"
+                          checked={showTransparentFrame}
+                          disabled={!exportFormatInfo.supportsTransparency}
+                          onChange={(_event, checked) => setTransparentBackground(checked)}
+                          color="secondary"
+                        />
+                      </Stack>
                       <Typography 
                         variant="overline" 
                         sx={{ 
@@ -876,6 +2932,7 @@ function App() {
                         size="small"
                         value={compressionPreset}
                         color="secondary"
+                        disabled={exportFormatInfo.lossless}
                         onChange={(_event, value: CompressionPreset | null) => {
                           if (value) {
                             setCompressionPreset(value)
@@ -901,12 +2958,77 @@ function App() {
                         variant="caption" 
                         sx={{ fontSize: '0.7rem', color: 'rgba(247,247,251,0.5)' }}
                       >
-                        {compressionPresets[compressionPreset].helper}
+                        {exportFormatInfo.lossless ? 'Lossless – every pixel is kept' : compressionPresets[compressionPreset].helper}
                       </Typography>
+                      <Stack direction="row" alignItems="center" spacing={1}>
+                        <Switch
+                          size="small"
+                          checked={sizeLimitEnabled}
+                          onChange={(_event, checked) => setSizeLimitEnabled(checked)}
+                          color="secondary"
+                        />
+                        <Typography variant="caption" sx={{ fontSize: '0.75rem', color: 'rgba(247,247,251,0.6)', flexShrink: 0 }}>
+                          Fit under
+                        </Typography>
+                        <TextField
+                          size="small"
+                          type="number"
+                          disabled={!sizeLimitEnabled}
+                          value={sizeLimitMb}
+                          onChange={(event) => {
+                            history.coalesce('size-limit')
+                            setSizeLimitMb(Number(event.target.value))
+                          }}
+                          onBlur={history.endCoalesce}
+                          slotProps={{
+                            htmlInput: { min: MIN_SIZE_LIMIT_MB, step: 0.5 },
+                            input: { endAdornment: <InputAdornment position="end">MB</InputAdornment> },
+                          }}
+                          sx={{
+                            width: 110,
+                            '& .MuiOutlinedInput-root': {
+                              fontSize: '0.8rem',
+                              color: '#f7f7fb',
+                              '& fieldset': { borderColor: 'rgba(255,255,255,0.1)' },
+                              '&:hover fieldset': { borderColor: 'rgba(255,255,255,0.2)' },
+                              '&.Mui-focused fieldset': { borderColor: 'rgba(255,193,7,0.5)' },
+                              '&.Mui-disabled': { opacity: 0.4 },
+                            },
+                            '& .MuiInputAdornment-root p': { fontSize: '0.75rem', color: 'rgba(247,247,251,0.5)' },
+                          }}
+                        />
+                      </Stack>
                     </Stack>
                   </Stack>
                 </Paper>
 
+                <StylePanel
+                  style={collageStyle}
+                  onChange={updateCollageStyle}
+                  onCommit={history.endCoalesce}
+                  backgroundDisabled={showTransparentFrame}
+                />
+
+                <AdjustmentsPanel adjustments={adjustments} onChange={updateAdjustments} onCommit={history.endCoalesce} />
+
+                {footerEnabled && (
+                  <CaptionDesignPanel
+                    design={captionDesign}
+                    autoColor={captionPlacement === 'overlay' ? '#f7f7fb' : captionColor}
+                    onChange={updateCaptionDesign}
+                    onCommit={history.endCoalesce}
+                  />
+                )}
+
+                <TileLabelPanel
+                  style={tileLabels}
+                  onChange={updateTileLabels}
+                  onCommit={history.endCoalesce}
+                  onNumberPhotos={numberPhotos}
+                  onResetLabels={resetPhotoLabels}
+                  hasCustomLabels={assets.some((asset) => asset.caption !== null)}
+                />
+
                 <Stack 
                   direction="row" 
                   spacing={1} 
@@ -941,10 +3063,73 @@ function App() {
                     sx={{
                       width: previewCanvasWidth,
                       backgroundColor: '#fff',
+                      // A checkerboard shows through wherever the export will be transparent.
+                      backgroundImage: showTransparentFrame
+                        ? 'repeating-conic-gradient(rgba(12,12,16,0.12) 0% 25%, transparent 0% 50%)'
+                        : 'none',
+                      backgroundSize: '16px 16px',
                       borderRadius: 0,
                       mx: 'auto',
+                      position: 'relative',
                     }}
+                    // Hover is only cleared when leaving the whole preview so the star overlay stays reachable.
+                    onMouseLeave={() => setHoveredId(null)}
                   >
+                    {/* Crop badges are HTML on top of the canvas so they never end up in the export. */}
+                    {cropBadges.map(({ item, fraction }) => (
+                      <Box
+                        key={item.id}
+                        sx={{
+                          position: 'absolute',
+                          left: (item.x + framePadding) * liveScale + 4,
+                          top: (item.y + collageTop) * liveScale + 4,
+                          px: 0.5,
+                          borderRadius: 0.75,
+                          background: 'rgba(5,6,10,0.7)',
+                          color: fraction > 0.3 ? '#f4c95d' : 'rgba(247,247,251,0.85)',
+                          fontSize: '0.6rem',
+                          fontWeight: 600,
+                          lineHeight: 1.6,
+                          pointerEvents: 'none',
+                          zIndex: 1,
+                        }}
+                      >
+                        −{Math.round(fraction * 100)}%
+                      </Box>
+                    ))}
+                    {!reorderState && layout.items.map((item) => {
+                      const asset = assetMap[item.id]
+                      const featured = Boolean(asset && asset.span > 1)
+                      // Touch devices have no hover, so every tile keeps its star visible there.
+                      if (!asset || (!featured && !touchReorder && hoveredId !== item.id)) {
+                        return null
+                      }
+                      return (
+                        <Tooltip key={item.id} title={featured ? 'Unfeature photo' : 'Feature photo'}>
+                          <IconButton
+                            size="small"
+                            onClick={() => toggleFeatured(item.id)}
+                            sx={{
+                              position: 'absolute',
+                              left: (item.x + item.width + framePadding) * liveScale - 28,
+                              top: (item.y + collageTop) * liveScale + 4,
+                              width: 24,
+                              height: 24,
+                              background: 'rgba(5,6,10,0.55)',
+                              color: featured ? '#f4c95d' : 'rgba(247,247,251,0.85)',
+                              zIndex: 2,
+                              '&:hover': { background: 'rgba(5,6,10,0.8)' },
+                            }}
+                          >
+                            {featured ? (
+                              <StarRoundedIcon sx={{ fontSize: '1rem' }} />
+                            ) : (
+                              <StarBorderRoundedIcon sx={{ fontSize: '1rem' }} />
+                            )}
+                          </IconButton>
+                        </Tooltip>
+                      )
+                    })}
                     {/* Stage renders at a scaled size for interactivity but exports at full resolution. */}
                     <Stage
                       ref={stageRef}
@@ -953,59 +3138,161 @@ function App() {
                       scaleX={liveScale}
                       scaleY={liveScale}
                     >
-                      <Layer listening={false} perfectDrawEnabled={false}>
-                        <Rect
-                          x={0}
-                          y={0}
-                          width={fullExportWidth}
-                          height={fullStageHeight}
-                          fill="#ffffffff"
-                          stroke="rgba(12,12,16,0.08)"
-                          strokeWidth={8}
-                        />
-                      </Layer>
-                      <Layer listening={false} perfectDrawEnabled={false}>
+                      {!showTransparentFrame && (
+                        <Layer listening={false} perfectDrawEnabled={false}>
+                          {backdrop && (
+                            <KonvaImage image={backdrop.canvas} x={0} y={0} width={fullExportWidth} height={fullStageHeight} />
+                          )}
+                          <Rect
+                            x={0}
+                            y={0}
+                            width={fullExportWidth}
+                            height={fullStageHeight}
+                            {...(backdrop
+                              ? {}
+                              : collageStyle.background === 'gradient'
+                                ? {
+                                    fillLinearGradientStartPoint: gradientLine.start,
+                                    fillLinearGradientEndPoint: gradientLine.end,
+                                    fillLinearGradientColorStops: [0, collageStyle.gradientFrom, 1, collageStyle.gradientTo],
+                                  }
+                                : { fill: collageStyle.color })}
+                            stroke={FRAME_STROKE}
+                            strokeWidth={FRAME_STROKE_WIDTH}
+                          />
+                        </Layer>
+                      )}
+                      {tileShadow && (
+                        <Layer listening={false} perfectDrawEnabled={false}>
+                          {/* Every shadow sits under every photo; each photo hides the rect casting its own. */}
+                          {layout.items.map(getPhotoSlot).map((slot) => (
+                            <Rect
+                              key={slot.id}
+                              x={slot.x + framePadding}
+                              y={slot.y + collageTop}
+                              width={slot.width}
+                              height={slot.height}
+                              cornerRadius={getTileRadius(collageStyle, slot.width, slot.height)}
+                              fill="#000"
+                              shadowColor={tileShadow.color}
+                              shadowBlur={tileShadow.blur}
+                              shadowOffsetY={tileShadow.offsetY}
+                            />
+                          ))}
+                        </Layer>
+                      )}
+                      <Layer perfectDrawEnabled={false}>
                         {layout.items.map((item) => {
                           const asset = assetMap[item.id]
                           if (!asset) {
                             return null
                           }
-                          // KonvaImage draws the pre-decoded bitmap/canvas directly onto the canvas layer.
+                          const slot = getPhotoSlot(item)
+                          const draw = resolveTileDraw(slot, asset, asset.edits)
+                          // Draws the pre-decoded bitmap/canvas directly onto the canvas layer; only adjusted tiles get cached.
                           return (
-                            <KonvaImage
+                            <AdjustedImage
                               key={item.id}
                               image={asset.image}
-                              x={item.x + FRAME_PADDING}
-                              y={item.y + FRAME_PADDING}
-                              width={item.width}
-                              height={item.height}
-                              listening={false}
+                              adjustments={tileAdjustments.get(item.id) ?? null}
+                              cachePixelRatio={previewPixelRatio}
+                              {...draw}
+                              x={draw.x + framePadding}
+                              y={draw.y + collageTop}
+                              cornerRadius={getTileRadius(collageStyle, slot.width, slot.height)}
+                              draggable={!touchReorder}
+                              preventDefault={!touchReorder}
+                              onMouseEnter={() => {
+                                setHoveredId(item.id)
+                                setStageCursor(reorderState ? 'grabbing' : 'grab')
+                              }}
+                              onMouseLeave={() => setStageCursor(reorderState ? 'grabbing' : 'default')}
+                              onTouchStart={handleTileTouchStart}
+                              onTouchMove={handleTileTouchMove}
+                              onTouchEnd={clearLongPress}
+                              onDragStart={(event) => handleTileDragStart(event, item.id)}
+                              onDragMove={handleTileDragMove}
+                              onDragEnd={(event) => handleTileDragEnd(event, item)}
+                              onClick={() => setEditingId(item.id)}
+                              onTap={() => setEditingId(item.id)}
                             />
                           )
                         })}
                       </Layer>
-                      {footerEnabled && (
+                      {tileLabelItems.length > 0 && (
+                        <Layer ref={tileLabelLayerRef} listening={false} perfectDrawEnabled={false}>
+                          {/* Exported band by band as overlays, like the caption. */}
+                          {tileLabelItems.map(({ item, text, band }) => {
+                            const position = { ...band, x: band.x + framePadding, y: band.y + collageTop }
+                            const radius = Math.min(getTileRadius(collageStyle, item.width, item.height), band.height)
+                            return (
+                              <Group key={item.id}>
+                                {tileLabels.mode === 'overlay' && (
+                                  <Rect {...position} cornerRadius={[0, 0, radius, radius]} fill="rgba(5,6,10,0.55)" />
+                                )}
+                                <KonvaText
+                                  {...getTileLabelTextConfig(tileLabels, text, position)}
+                                  fill={tileLabels.mode === 'overlay' ? '#f7f7fb' : captionColor}
+                                />
+                              </Group>
+                            )
+                          })}
+                        </Layer>
+                      )}
+                      {reorderState && layout.items[reorderState.targetIndex] && (
                         <Layer listening={false} perfectDrawEnabled={false}>
-                          {/* Dedicated footer layer renders after photos so it overlays edge shadows cleanly. */}
+                          {/* Drop indicator outlines the slot the dragged photo will land in. */}
                           <Rect
-                            x={FRAME_PADDING}
-                            y={footerOffsetY}
-                            width={EXPORT_WIDTH}
-                            height={FOOTER_HEIGHT}
-                            fill="#fff"
-                          />
-                          <KonvaText
-                            text={footerText || 'OnePic'}
-                            x={FRAME_PADDING}
-                            y={footerOffsetY + FOOTER_HEIGHT / 2 - 32}
-                            width={EXPORT_WIDTH}
-                            align="center"
-                            fontSize={72}
-                            fontFamily='"Space Grotesk Variable", "Space Grotesk", sans-serif'
-                            fill="#05060a"
+                            x={layout.items[reorderState.targetIndex].x + framePadding}
+                            y={layout.items[reorderState.targetIndex].y + collageTop}
+                            width={layout.items[reorderState.targetIndex].width}
+                            height={layout.items[reorderState.targetIndex].height}
+                            cornerRadius={getTileRadius(
+                              collageStyle,
+                              layout.items[reorderState.targetIndex].width,
+                              layout.items[reorderState.targetIndex].height,
+                            )}
+                            stroke="#20d5b8"
+                            strokeWidth={16}
+                            dash={[48, 24]}
+                            fill="rgba(32,213,184,0.12)"
                           />
                         </Layer>
                       )}
+                      {footerEnabled && (
+                        <Layer ref={footerLayerRef} listening={false} perfectDrawEnabled={false}>
+                          {/* The caption sits straight on the frame background; the export worker gets this layer as an overlay. */}
+                          <Group
+                            x={framePadding}
+                            y={captionTop}
+                            clipX={0}
+                            clipY={0}
+                            clipWidth={EXPORT_WIDTH}
+                            clipHeight={captionHeight}
+                          >
+                            {captionPlacement === 'overlay' && (
+                              <Rect
+                                width={EXPORT_WIDTH}
+                                height={captionHeight}
+                                cornerRadius={[0, 0, scrimRadius, scrimRadius]}
+                                fillLinearGradientStartPoint={{ x: 0, y: 0 }}
+                                fillLinearGradientEndPoint={{ x: 0, y: captionHeight }}
+                                fillLinearGradientColorStops={[0, 'rgba(5,6,10,0)', 1, 'rgba(5,6,10,0.6)']}
+                              />
+                            )}
+                            {captionLayout.title && (
+                              <KonvaText {...getCaptionTextConfig(captionDesign, captionLayout.title)} fill={captionFill} />
+                            )}
+                            {captionLayout.subtitle && (
+                              <KonvaText
+                                {...getCaptionTextConfig(captionDesign, captionLayout.subtitle)}
+                                fill={captionFill}
+                                opacity={0.75}
+                              />
+                            )}
+                          </Group>
+                        </Layer>
+                      )}
                     </Stage>
                   </Box>
                 </Box>
@@ -1092,11 +3379,50 @@ function App() {
         <Stack spacing={2} alignItems="center">
           <LinearProgress sx={{ width: 180, borderRadius: 1 }} color="secondary" />
           <Typography variant="body2" sx={{ color: 'rgba(247,247,251,0.7)', fontSize: '0.85rem' }}>
-            Processing photos…
+            {processingMessage ?? 'Processing photos…'}
           </Typography>
         </Stack>
       </Backdrop>
 
+      <PhotoEditorDialog
+        key={editingId ?? 'closed'}
+        photo={editingAsset}
+        defaultCaption={
+          editingAsset && tileLabels.mode !== 'off' ? getDefaultTileLabel(tileLabels.source, editingAsset) : null
+        }
+        collageAdjustments={adjustments}
+        onClose={() => setEditingId(null)}
+        onApply={applyPhotoEdits}
+      />
+
+      {/* Folder fallback for browsers without a directory picker; the attribute isn't in React's types. */}
+      <input
+        ref={folderInputRef}
+        hidden
+        multiple
+        type="file"
+        onChange={handleFolderFiles}
+        {...{ webkitdirectory: '' }}
+      />
+
+      {culling && (
+        <CullingDialog
+          candidates={culling.candidates}
+          limit={culling.limit}
+          onCancel={() => finishCulling(null)}
+          onConfirm={finishCulling}
+        />
+      )}
+
+      {duplicateGroups.length > 0 && (
+        <DuplicateReviewDialog
+          groups={duplicateGroups}
+          photos={assetMap}
+          onClose={() => setDuplicateGroups([])}
+          onRemove={removeDuplicates}
+        />
+      )}
+
       <Snackbar
         open={Boolean(snackbar)}
         autoHideDuration={4000}
@@ -1107,6 +3433,49 @@ function App() {
           {snackbar}
         </Alert>
       </Snackbar>
+      <Snackbar
+        open={clearUndoOpen && !hasAssets}
+        autoHideDuration={CLEAR_UNDO_GRACE}
+        onClose={(_event, reason) => {
+          if (reason !== 'clickaway') {
+            setClearUndoOpen(false)
+          }
+        }}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert
+          severity="info"
+          action={
+            <Button color="inherit" size="small" onClick={undoClear} sx={{ textTransform: 'none', fontWeight: 600 }}>
+              Undo
+            </Button>
+          }
+        >
+          Canvas cleared. Ready for a new recap!
+        </Alert>
+      </Snackbar>
+      <Snackbar open={hasAssets && Boolean(savedSession) && !isProcessing} anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}>
+        <Alert
+          severity="warning"
+          action={
+            <Stack direction="row" spacing={0.5}>
+              <Button color="inherit" size="small" onClick={resumeSession} sx={{ textTransform: 'none', fontWeight: 600 }}>
+                Add its photos
+              </Button>
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => setSavedSession(null)}
+                sx={{ textTransform: 'none', fontWeight: 600 }}
+              >
+                Replace it
+              </Button>
+            </Stack>
+          }
+        >
+          Your last collage is still saved. This one won’t be saved until you add its photos or replace it.
+        </Alert>
+      </Snackbar>
     </Box>
   )
 }
@@ -0,0 +1,182 @@
+import Konva from 'konva'
+
+// Typography and placement of the caption. Sizes are in stage units like the rest of the
+// collage; the text itself (title and subtitle) is kept with the other caption settings.
+
+export type CaptionFont = 'grotesk' | 'inter' | 'playfair' | 'caveat'
+export type CaptionAlign = 'left' | 'center' | 'right'
+export type CaptionPlacement = 'bottom' | 'top' | 'overlay'
+
+export interface CaptionDesign {
+  font: CaptionFont
+  align: CaptionAlign
+  placement: CaptionPlacement
+  // Title size; the subtitle follows at SUBTITLE_SCALE.
+  size: number
+  letterSpacing: number
+  // null follows the background (see getCaptionColor).
+  color: string | null
+  // Shrink the title so its longest line fits on one line instead of wrapping.
+  autoFit: boolean
+}
+
+export const defaultCaptionDesign: CaptionDesign = {
+  font: 'grotesk',
+  align: 'center',
+  placement: 'bottom',
+  size: 72,
+  letterSpacing: 0,
+  color: null,
+  autoFit: true,
+}
+
+// Families come from the @fontsource packages imported in main.tsx.
+export const captionFonts: Record<CaptionFont, { label: string; family: string }> = {
+  grotesk: { label: 'Space Grotesk', family: '"Space Grotesk Variable", "Space Grotesk", sans-serif' },
+  inter: { label: 'Inter', family: '"Inter Variable", "Inter", sans-serif' },
+  playfair: { label: 'Playfair Display', family: '"Playfair Display Variable", "Playfair Display", serif' },
+  caveat: { label: 'Caveat', family: '"Caveat Variable", "Caveat", cursive' },
+}
+
+export const captionPlacements: Record<CaptionPlacement, { label: string }> = {
+  top: { label: 'Top' },
+  bottom: { label: 'Bottom' },
+  overlay: { label: 'Overlay' },
+}
+
+export const captionLimits = {
+  size: { min: 32, max: 180, step: 4 },
+  letterSpacing: { min: -4, max: 32, step: 1 },
+} as const
+
+const CAPTION_ALIGNS: CaptionAlign[] = ['left', 'center', 'right']
+const SUBTITLE_SCALE = 0.45
+const TITLE_STYLE = '600'
+const MIN_AUTO_FIT_SIZE = 24
+const LINE_HEIGHT = 1.15
+// Space above and below the text block, and between title and subtitle, relative to the title size.
+const BAND_PADDING = 1.15
+const TEXT_GAP = 0.35
+// Overlay captions stay clear of the collage edges.
+const OVERLAY_INSET = 64
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+export const sanitizeCaptionDesign = (raw: unknown): CaptionDesign => {
+  if (typeof raw !== 'object' || raw === null) {
+    return defaultCaptionDesign
+  }
+  const value = raw as Record<string, unknown>
+  const design = { ...defaultCaptionDesign }
+  if (typeof value.font === 'string' && Object.hasOwn(captionFonts, value.font)) {
+    design.font = value.font as CaptionFont
+  }
+  if (CAPTION_ALIGNS.includes(value.align as CaptionAlign)) {
+    design.align = value.align as CaptionAlign
+  }
+  if (typeof value.placement === 'string' && Object.hasOwn(captionPlacements, value.placement)) {
+    design.placement = value.placement as CaptionPlacement
+  }
+  ;(Object.keys(captionLimits) as (keyof typeof captionLimits)[]).forEach((key) => {
+    const number = value[key]
+    if (typeof number === 'number' && Number.isFinite(number)) {
+      design[key] = Math.min(Math.max(number, captionLimits[key].min), captionLimits[key].max)
+    }
+  })
+  if (value.color === null || (typeof value.color === 'string' && HEX_COLOR.test(value.color))) {
+    design.color = value.color
+  }
+  if (typeof value.autoFit === 'boolean') {
+    design.autoFit = value.autoFit
+  }
+  return design
+}
+
+/** Resolves once the caption font can be drawn on a canvas; canvas text never waits for it. */
+export const loadCaptionFont = async (font: CaptionFont) => {
+  if (typeof document === 'undefined' || !document.fonts) {
+    return
+  }
+  const { family } = captionFonts[font]
+  try {
+    await Promise.all([document.fonts.load(`64px ${family}`), document.fonts.load(`${TITLE_STYLE} 64px ${family}`)])
+  } catch {
+    // A missing font falls back to the next family in the list.
+  }
+}
+
+export interface CaptionTextBlock {
+  text: string
+  x: number
+  y: number
+  width: number
+  fontSize: number
+  fontStyle: string
+}
+
+export interface CaptionLayout {
+  // Band height for top/bottom placement, or the overlay's height over the collage.
+  height: number
+  title: CaptionTextBlock | null
+  subtitle: CaptionTextBlock | null
+}
+
+/** Konva props for a laid-out block; `layoutCaption` measures with exactly these. */
+export const getCaptionTextConfig = (design: CaptionDesign, block: CaptionTextBlock): Konva.TextConfig => ({
+  ...block,
+  fontFamily: captionFonts[design.font].family,
+  letterSpacing: design.letterSpacing,
+  align: design.align,
+  lineHeight: LINE_HEIGHT,
+  wrap: 'word',
+})
+
+let measureNode: Konva.Text | null = null
+
+// Measured with a detached Konva.Text so wrapping matches what the stage will draw.
+const measureText = (config: Konva.TextConfig) => {
+  measureNode ??= new Konva.Text()
+  measureNode.setAttrs(config)
+  return { width: measureNode.getTextWidth(), height: measureNode.height() }
+}
+
+/**
+ * Places title and subtitle inside a band `width` wide (relative to the band's top-left),
+ * growing the band with the text. Call again once `loadCaptionFont` resolves.
+ */
+export const layoutCaption = (design: CaptionDesign, title: string, subtitle: string, width: number): CaptionLayout => {
+  const inset = design.placement === 'overlay' ? OVERLAY_INSET : 0
+  const textWidth = width - inset * 2
+  const trimmedTitle = title.trim()
+  const trimmedSubtitle = subtitle.trim()
+
+  let titleSize = design.size
+  if (design.autoFit && trimmedTitle) {
+    // Measure each explicit line unwrapped and shrink until the longest one fits.
+    const block = { text: trimmedTitle, x: 0, y: 0, width: textWidth, fontSize: titleSize, fontStyle: TITLE_STYLE }
+    const natural = measureText({ ...getCaptionTextConfig(design, block), width: undefined, wrap: 'none' })
+    if (natural.width > textWidth) {
+      titleSize = Math.max(MIN_AUTO_FIT_SIZE, Math.floor((titleSize * textWidth) / natural.width))
+    }
+  }
+
+  let cursor = design.size * BAND_PADDING
+  const place = (text: string, fontSize: number, fontStyle: string): CaptionTextBlock | null => {
+    if (!text) {
+      return null
+    }
+    const block = { text, x: inset, y: cursor, width: textWidth, fontSize, fontStyle }
+    cursor += measureText(getCaptionTextConfig(design, block)).height + design.size * TEXT_GAP
+    return block
+  }
+
+  const titleBlock = place(trimmedTitle, titleSize, TITLE_STYLE)
+  const subtitleBlock = place(trimmedSubtitle, Math.round(design.size * SUBTITLE_SCALE), 'normal')
+  if (titleBlock || subtitleBlock) {
+    cursor -= design.size * TEXT_GAP
+  }
+  return {
+    height: Math.round(cursor + design.size * BAND_PADDING),
+    title: titleBlock,
+    subtitle: subtitleBlock,
+  }
+}
@@ -0,0 +1,94 @@
+import { format, getMonth, getYear, isSameDay, isSameMonth, isSameYear } from 'date-fns'
+
+export type CaptionTemplate = 'range' | 'month' | 'season' | 'year' | 'count'
+
+export const captionTemplates: Record<CaptionTemplate, { label: string }> = {
+  range: { label: 'Date range' },
+  month: { label: 'Month' },
+  season: { label: 'Season' },
+  year: { label: 'Year' },
+  count: { label: 'Photo count' },
+}
+
+export interface DatedPhoto {
+  capturedAt: number | null
+  lastModified: number | null
+}
+
+// Prefer the EXIF capture time; the file's modification time is a decent stand-in for
+// screenshots and exports that carry no EXIF at all.
+export const resolvePhotoTimestamp = (photo: DatedPhoto) => photo.capturedAt ?? photo.lastModified
+
+const EN_DASH = '–'
+const SEASONS = ['Winter', 'Spring', 'Summer', 'Autumn'] as const
+
+// Meteorological seasons; December counts towards the following year's winter.
+const getSeason = (date: Date) => {
+  const month = getMonth(date)
+  const index = Math.floor(((month + 1) % 12) / 3)
+  const year = month === 11 ? getYear(date) + 1 : getYear(date)
+  return { name: SEASONS[index], year }
+}
+
+const formatDayRange = (start: Date, end: Date) => {
+  if (isSameDay(start, end)) {
+    return format(start, 'MMMM d, yyyy')
+  }
+  if (isSameMonth(start, end)) {
+    return `${format(start, 'MMMM d')} ${EN_DASH} ${format(end, 'd, yyyy')}`
+  }
+  if (isSameYear(start, end)) {
+    return `${format(start, 'MMMM d')} ${EN_DASH} ${format(end, 'MMMM d, yyyy')}`
+  }
+  return `${format(start, 'MMM d, yyyy')} ${EN_DASH} ${format(end, 'MMM d, yyyy')}`
+}
+
+const formatMonthRange = (start: Date, end: Date) => {
+  if (isSameMonth(start, end)) {
+    return format(start, 'MMMM yyyy')
+  }
+  if (isSameYear(start, end)) {
+    return `${format(start, 'MMMM')} ${EN_DASH} ${format(end, 'MMMM yyyy')}`
+  }
+  return `${format(start, 'MMMM yyyy')} ${EN_DASH} ${format(end, 'MMMM yyyy')}`
+}
+
+const formatSeason = (start: Date, end: Date) => {
+  const first = getSeason(start)
+  const last = getSeason(end)
+  if (first.name === last.name && first.year === last.year) {
+    // Winter straddles New Year, so name both years: "Winter 2025–26".
+    return first.name === 'Winter'
+      ? `${first.name} ${first.year - 1}${EN_DASH}${String(first.year).slice(-2)}`
+      : `${first.name} ${first.year}`
+  }
+  return formatMonthRange(start, end)
+}
+
+const formatYearRange = (start: Date, end: Date) =>
+  isSameYear(start, end) ? format(start, 'yyyy') : `${format(start, 'yyyy')} ${EN_DASH} ${format(end, 'yyyy')}`
+
+export function buildCaption(template: CaptionTemplate, photos: DatedPhoto[]): string {
+  if (template === 'count') {
+    return `${photos.length} photo${photos.length === 1 ? '' : 's'}`
+  }
+
+  const timestamps = photos
+    .map(resolvePhotoTimestamp)
+    .filter((value): value is number => value !== null && Number.isFinite(value))
+
+  // Without any dates to go on, fall back to today like the original default.
+  const start = new Date(timestamps.length ? Math.min(...timestamps) : Date.now())
+  const end = new Date(timestamps.length ? Math.max(...timestamps) : Date.now())
+
+  switch (template) {
+    case 'month':
+      return formatMonthRange(start, end)
+    case 'season':
+      return formatSeason(start, end)
+    case 'year':
+      return formatYearRange(start, end)
+    default:
+      return formatDayRange(start, end)
+  }
+}
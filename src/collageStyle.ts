@@ -0,0 +1,222 @@
+import type { Point, TileDrawProps } from './photoEdits'
+
+// Spacing, background and tile styling of the collage. Everything is in stage units (the
+// 3600 px export width), so the preview, the Konva export and the worker export all scale
+// the same numbers. Drawing helpers here are shared by the main thread and the worker.
+
+export type BackgroundKind = 'solid' | 'gradient' | 'photo'
+
+export interface CollageStyle {
+  gutter: number
+  padding: number
+  background: BackgroundKind
+  color: string
+  gradientFrom: string
+  gradientTo: string
+  // CSS convention: 0 runs bottom to top, 90 left to right.
+  gradientAngle: number
+  cornerRadius: number
+  // 0 turns shadows off; 100 is the strongest.
+  shadow: number
+}
+
+export const defaultCollageStyle: CollageStyle = {
+  gutter: 32,
+  padding: 48,
+  background: 'solid',
+  color: '#ffffff',
+  gradientFrom: '#fdfbfb',
+  gradientTo: '#c9d6ff',
+  gradientAngle: 135,
+  cornerRadius: 0,
+  shadow: 0,
+}
+
+export const backgroundKinds: Record<BackgroundKind, { label: string }> = {
+  solid: { label: 'Color' },
+  gradient: { label: 'Gradient' },
+  photo: { label: 'Photo' },
+}
+
+export const styleLimits = {
+  gutter: { min: 0, max: 160, step: 4 },
+  padding: { min: 0, max: 240, step: 8 },
+  cornerRadius: { min: 0, max: 120, step: 4 },
+  shadow: { min: 0, max: 100, step: 5 },
+  gradientAngle: { min: 0, max: 360, step: 15 },
+} as const
+
+type NumericStyleKey = keyof typeof styleLimits
+
+export interface TileShadow {
+  color: string
+  blur: number
+  offsetY: number
+}
+
+// Longest side of the blurred backdrop, which is stretched over the whole frame.
+const BACKDROP_SIZE = 240
+const BACKDROP_BLUR_RADIUS = 8
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+const clampStyleNumber = (key: NumericStyleKey, value: number) =>
+  Math.min(Math.max(value, styleLimits[key].min), styleLimits[key].max)
+
+/** Restores a style saved by another version of the app, falling back to defaults field by field. */
+export const sanitizeCollageStyle = (raw: unknown): CollageStyle => {
+  if (typeof raw !== 'object' || raw === null) {
+    return defaultCollageStyle
+  }
+  const value = raw as Record<string, unknown>
+  const style = { ...defaultCollageStyle }
+  ;(Object.keys(styleLimits) as NumericStyleKey[]).forEach((key) => {
+    const number = value[key]
+    if (typeof number === 'number' && Number.isFinite(number)) {
+      style[key] = clampStyleNumber(key, number)
+    }
+  })
+  if (typeof value.background === 'string' && Object.hasOwn(backgroundKinds, value.background)) {
+    style.background = value.background as BackgroundKind
+  }
+  ;(['color', 'gradientFrom', 'gradientTo'] as const).forEach((key) => {
+    const color = value[key]
+    if (typeof color === 'string' && HEX_COLOR.test(color)) {
+      style[key] = color
+    }
+  })
+  return style
+}
+
+export const getTileShadow = (style: CollageStyle): TileShadow | null => {
+  if (style.shadow <= 0) {
+    return null
+  }
+  const strength = style.shadow / styleLimits.shadow.max
+  return {
+    color: `rgba(5, 6, 10, ${(0.15 + strength * 0.35).toFixed(3)})`,
+    blur: 8 + strength * 64,
+    offsetY: strength * 24,
+  }
+}
+
+// Rounded corners never exceed half the shorter side, whatever the slider says.
+export const getTileRadius = (style: CollageStyle, width: number, height: number) =>
+  Math.max(0, Math.min(style.cornerRadius, width / 2, height / 2))
+
+/** End points of a CSS-style linear gradient across a `width` × `height` box. */
+export const getGradientLine = (width: number, height: number, angle: number): { start: Point; end: Point } => {
+  const radians = (angle * Math.PI) / 180
+  const dx = Math.sin(radians)
+  const dy = -Math.cos(radians)
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2
+  return {
+    start: { x: width / 2 - dx * half, y: height / 2 - dy * half },
+    end: { x: width / 2 + dx * half, y: height / 2 + dy * half },
+  }
+}
+
+const hexToRgb = (hex: string) => {
+  const value = Number.parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+// WCAG relative luminance of an sRGB colour given as 0–255 channels.
+const relativeLuminance = ([r, g, b]: number[]) => {
+  const linear = (channel: number) => {
+    const c = channel / 255
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+  }
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b)
+}
+
+/** Caption colour that stays readable on the background; `backdropLuminance` covers photo backdrops. */
+export const getCaptionColor = (style: CollageStyle, backdropLuminance: number | null) => {
+  let luminance = relativeLuminance(hexToRgb(style.color))
+  if (style.background === 'gradient') {
+    luminance = (relativeLuminance(hexToRgb(style.gradientFrom)) + relativeLuminance(hexToRgb(style.gradientTo))) / 2
+  } else if (style.background === 'photo' && backdropLuminance !== null) {
+    luminance = backdropLuminance
+  }
+  return luminance > 0.35 ? '#05060a' : '#f7f7fb'
+}
+
+/** Paints a photo into its slot the way Konva does for `resolveTileDraw` props. */
+export const drawTile = (
+  context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  image: CanvasImageSource & { width: number; height: number },
+  draw: TileDrawProps,
+  cornerRadius = 0,
+) => {
+  context.save()
+  context.translate(draw.x, draw.y)
+  context.rotate((draw.rotation * Math.PI) / 180)
+  context.scale(draw.scaleX, draw.scaleY)
+  if (cornerRadius > 0) {
+    context.beginPath()
+    context.roundRect(-draw.offsetX, -draw.offsetY, draw.width, draw.height, cornerRadius)
+    context.clip()
+  }
+  const crop = draw.crop ?? { x: 0, y: 0, width: image.width, height: image.height }
+  context.drawImage(image, crop.x, crop.y, crop.width, crop.height, -draw.offsetX, -draw.offsetY, draw.width, draw.height)
+  context.restore()
+}
+
+// One horizontal pass of a sliding-window box blur, writing the result transposed so the same
+// function handles the vertical pass on the way back.
+const boxBlurPass = (source: Uint8ClampedArray, target: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  const span = radius * 2 + 1
+  for (let y = 0; y < height; y += 1) {
+    const row = y * width * 4
+    for (let channel = 0; channel < 4; channel += 1) {
+      // Edges are extended so the border doesn't darken.
+      let sum = source[row + channel] * (radius + 1)
+      for (let x = 1; x <= radius; x += 1) {
+        sum += source[row + Math.min(x, width - 1) * 4 + channel]
+      }
+      for (let x = 0; x < width; x += 1) {
+        target[(x * height + y) * 4 + channel] = sum / span
+        const add = Math.min(x + radius + 1, width - 1)
+        const remove = Math.max(x - radius, 0)
+        sum += source[row + add * 4 + channel] - source[row + remove * 4 + channel]
+      }
+    }
+  }
+}
+
+/**
+ * Renders a small, heavily blurred copy of a photo to stretch behind the collage. The blur is
+ * done in script (canvas `filter` is missing in some browsers) and the result is drawn as an
+ * ordinary image, so preview and export match. Also reports the backdrop's mean luminance.
+ */
+export const createBlurredBackdrop = (
+  image: CanvasImageSource & { width: number; height: number },
+  draw: (size: { width: number; height: number }) => TileDrawProps,
+  aspect: number,
+) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(aspect >= 1 ? BACKDROP_SIZE : BACKDROP_SIZE * aspect))
+  canvas.height = Math.max(1, Math.round(aspect >= 1 ? BACKDROP_SIZE / aspect : BACKDROP_SIZE))
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) {
+    return null
+  }
+
+  const { width, height } = canvas
+  context.imageSmoothingQuality = 'high'
+  drawTile(context, image, draw({ width, height }))
+  const pixels = context.getImageData(0, 0, width, height)
+  const scratch = new Uint8ClampedArray(pixels.data.length)
+  // Three box passes approximate a Gaussian.
+  for (let pass = 0; pass < 3; pass += 1) {
+    boxBlurPass(pixels.data, scratch, width, height, BACKDROP_BLUR_RADIUS)
+    boxBlurPass(scratch, pixels.data, height, width, BACKDROP_BLUR_RADIUS)
+  }
+  context.putImageData(pixels, 0, 0)
+
+  let luminance = 0
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    luminance += relativeLuminance([pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]])
+  }
+  return { canvas, luminance: luminance / (width * height) }
+}
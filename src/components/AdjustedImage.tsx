@@ -0,0 +1,45 @@
+import { useEffect, useMemo, useRef } from 'react'
+import type Konva from 'konva'
+import type { ImageConfig } from 'konva/lib/shapes/Image'
+import type { KonvaNodeEvents } from 'react-konva'
+import { Image as KonvaImage } from 'react-konva'
+import { getAdjustmentFilter } from '../photoFilters'
+import type { ResolvedAdjustments } from '../photoFilters'
+
+/** Konva name of tiles carrying filters, so exports can re-cache them at output resolution. */
+export const ADJUSTED_TILE_NAME = 'adjusted-tile'
+
+// Konva configs carry an index signature, which `Omit` would flatten, so the filter props are
+// simply overridden below.
+type AdjustedImageProps = ImageConfig & KonvaNodeEvents & {
+  adjustments: ResolvedAdjustments | null
+  // Cache resolution in device pixels per stage unit; the preview caches small to stay cheap.
+  cachePixelRatio: number
+}
+
+/**
+ * A tile image whose adjustments run through Konva's filter pipeline. Filters only apply to
+ * cached nodes, so the node is re-cached whenever anything that changes its pixels does.
+ */
+export function AdjustedImage({ adjustments, cachePixelRatio, ...props }: AdjustedImageProps) {
+  const nodeRef = useRef<Konva.Image>(null)
+  const filters = useMemo(() => (adjustments ? [getAdjustmentFilter(adjustments)] : []), [adjustments])
+  const { image, width, height, crop, cornerRadius } = props
+  const cropKey = crop ? `${crop.x},${crop.y},${crop.width},${crop.height}` : ''
+  const radiusKey = String(cornerRadius ?? 0)
+
+  useEffect(() => {
+    const node = nodeRef.current
+    if (!node) {
+      return
+    }
+    if (filters.length) {
+      node.cache({ pixelRatio: cachePixelRatio })
+    } else if (node.isCached()) {
+      node.clearCache()
+    }
+    node.getLayer()?.batchDraw()
+  }, [filters, cachePixelRatio, image, width, height, cropKey, radiusKey])
+
+  return <KonvaImage ref={nodeRef} {...props} filters={filters} name={adjustments ? ADJUSTED_TILE_NAME : undefined} />
+}
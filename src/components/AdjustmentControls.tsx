@@ -0,0 +1,73 @@
+import { Box, MenuItem, Slider, Stack, TextField, Typography } from '@mui/material'
+import { adjustmentLimits, photoLooks } from '../photoFilters'
+import type { PhotoAdjustments, PhotoLook } from '../photoFilters'
+
+interface AdjustmentControlsProps {
+  value: PhotoAdjustments
+  // `coalesceKey` groups a continuous edit (a slider drag) into one undo step.
+  onChange: (patch: Partial<PhotoAdjustments>, coalesceKey?: string) => void
+  onCommit?: () => void
+}
+
+type SliderKey = keyof typeof adjustmentLimits
+
+const captionSx = { fontSize: '0.7rem', color: 'rgba(247,247,251,0.5)' }
+
+const selectSx = {
+  '& .MuiInputLabel-root': { fontSize: '0.8rem', color: 'rgba(247,247,251,0.5)' },
+  '& .MuiOutlinedInput-root': {
+    fontSize: '0.8rem',
+    color: '#f7f7fb',
+    '& fieldset': { borderColor: 'rgba(255,255,255,0.1)' },
+    '&:hover fieldset': { borderColor: 'rgba(255,255,255,0.2)' },
+    '&.Mui-focused fieldset': { borderColor: 'rgba(255,193,7,0.5)' },
+  },
+}
+
+const formatAmount = (key: SliderKey, value: number) => {
+  if (adjustmentLimits[key].min < 0) {
+    return value > 0 ? `+${value}` : String(value)
+  }
+  return `${value}%`
+}
+
+/** Look picker and sliders, shared by the collage panel and the photo editor. */
+export function AdjustmentControls({ value, onChange, onCommit }: AdjustmentControlsProps) {
+  return (
+    <Stack spacing={1.5}>
+      <TextField
+        select
+        size="small"
+        label="Look"
+        value={value.look}
+        onChange={(event) => onChange({ look: event.target.value as PhotoLook })}
+        sx={selectSx}
+      >
+        {Object.entries(photoLooks).map(([key, option]) => (
+          <MenuItem key={key} value={key} sx={{ fontSize: '0.85rem' }}>
+            {option.label}
+          </MenuItem>
+        ))}
+      </TextField>
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, columnGap: 2.5 }}>
+        {(Object.keys(adjustmentLimits) as SliderKey[]).map((key) => (
+          <Box key={key}>
+            <Typography variant="caption" sx={captionSx}>
+              {adjustmentLimits[key].label} {formatAmount(key, value[key])}
+            </Typography>
+            <Slider
+              value={value[key]}
+              min={adjustmentLimits[key].min}
+              max={adjustmentLimits[key].max}
+              size="small"
+              track={adjustmentLimits[key].min < 0 ? false : 'normal'}
+              onChange={(_event, amount) => onChange({ [key]: amount as number }, key)}
+              onChangeCommitted={onCommit}
+              sx={{ mt: 0.5 }}
+            />
+          </Box>
+        ))}
+      </Box>
+    </Stack>
+  )
+}
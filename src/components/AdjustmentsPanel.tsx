@@ -0,0 +1,61 @@
+import { IconButton, Paper, Stack, Tooltip, Typography } from '@mui/material'
+import RestartAltRoundedIcon from '@mui/icons-material/RestartAltRounded'
+import { isNeutralAdjustments, neutralAdjustments } from '../photoFilters'
+import type { PhotoAdjustments } from '../photoFilters'
+import { AdjustmentControls } from './AdjustmentControls'
+
+interface AdjustmentsPanelProps {
+  adjustments: PhotoAdjustments
+  onChange: (patch: Partial<PhotoAdjustments>, coalesceKey?: string) => void
+  onCommit: () => void
+}
+
+const overlineSx = {
+  fontSize: '0.65rem',
+  color: 'rgba(247,247,251,0.4)',
+  letterSpacing: '0.1em',
+  fontWeight: 600,
+}
+
+const captionSx = { fontSize: '0.7rem', color: 'rgba(247,247,251,0.5)' }
+
+export function AdjustmentsPanel({ adjustments, onChange, onCommit }: AdjustmentsPanelProps) {
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: { xs: 2, md: 2.5 },
+        borderRadius: 2.5,
+        background: 'rgba(255,255,255,0.02)',
+        border: '1px solid rgba(255,255,255,0.05)',
+      }}
+    >
+      <Stack spacing={1}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Typography variant="overline" sx={overlineSx}>
+            Adjustments
+          </Typography>
+          <Tooltip title="Reset adjustments">
+            <span>
+              <IconButton
+                size="small"
+                disabled={isNeutralAdjustments(adjustments)}
+                onClick={() => {
+                  onChange(neutralAdjustments)
+                  onCommit()
+                }}
+                sx={{ color: 'rgba(247,247,251,0.5)', '&:hover': { color: 'rgba(247,247,251,0.8)' } }}
+              >
+                <RestartAltRoundedIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Stack>
+        <AdjustmentControls value={adjustments} onChange={onChange} onCommit={onCommit} />
+        <Typography variant="caption" sx={captionSx}>
+          Applies to every photo, on top of its own adjustments.
+        </Typography>
+      </Stack>
+    </Paper>
+  )
+}
@@ -0,0 +1,240 @@
+import type { ChangeEvent } from 'react'
+import {
+  Box,
+  Divider,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Paper,
+  Slider,
+  Stack,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import FormatAlignCenterRoundedIcon from '@mui/icons-material/FormatAlignCenterRounded'
+import FormatAlignLeftRoundedIcon from '@mui/icons-material/FormatAlignLeftRounded'
+import FormatAlignRightRoundedIcon from '@mui/icons-material/FormatAlignRightRounded'
+import RestartAltRoundedIcon from '@mui/icons-material/RestartAltRounded'
+import { captionFonts, captionLimits, captionPlacements, defaultCaptionDesign } from '../captionDesign'
+import type { CaptionAlign, CaptionDesign, CaptionFont, CaptionPlacement } from '../captionDesign'
+
+interface CaptionDesignPanelProps {
+  design: CaptionDesign
+  // Colour the caption uses while `design.color` is null, shown as the picker's value.
+  autoColor: string
+  // `coalesceKey` groups a continuous edit (a slider drag, a colour picker) into one undo step.
+  onChange: (patch: Partial<CaptionDesign>, coalesceKey?: string) => void
+  onCommit: () => void
+}
+
+const overlineSx = {
+  fontSize: '0.65rem',
+  color: 'rgba(247,247,251,0.4)',
+  letterSpacing: '0.1em',
+  fontWeight: 600,
+}
+
+const captionSx = { fontSize: '0.7rem', color: 'rgba(247,247,251,0.5)' }
+
+const toggleGroupSx = {
+  '& .MuiToggleButton-root': {
+    fontSize: '0.75rem',
+    py: 0.5,
+    px: 1.5,
+    textTransform: 'none',
+    fontWeight: 500,
+  },
+}
+
+const colorInputSx = {
+  width: 32,
+  height: 24,
+  p: 0,
+  border: '1px solid rgba(255,255,255,0.15)',
+  borderRadius: 1,
+  background: 'none',
+  cursor: 'pointer',
+}
+
+const alignments: { value: CaptionAlign; label: string; icon: typeof FormatAlignLeftRoundedIcon }[] = [
+  { value: 'left', label: 'Align left', icon: FormatAlignLeftRoundedIcon },
+  { value: 'center', label: 'Center', icon: FormatAlignCenterRoundedIcon },
+  { value: 'right', label: 'Align right', icon: FormatAlignRightRoundedIcon },
+]
+
+export function CaptionDesignPanel({ design, autoColor, onChange, onCommit }: CaptionDesignPanelProps) {
+  const isDefault = (Object.keys(defaultCaptionDesign) as (keyof CaptionDesign)[]).every(
+    (key) => design[key] === defaultCaptionDesign[key],
+  )
+
+  const renderSlider = (key: keyof typeof captionLimits, label: string) => (
+    <Box>
+      <Typography variant="caption" sx={captionSx}>
+        {label}
+      </Typography>
+      <Slider
+        value={design[key]}
+        min={captionLimits[key].min}
+        max={captionLimits[key].max}
+        step={captionLimits[key].step}
+        size="small"
+        onChange={(_event, value) => onChange({ [key]: value as number }, key)}
+        onChangeCommitted={onCommit}
+        sx={{ mt: 0.5 }}
+      />
+    </Box>
+  )
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: { xs: 2, md: 2.5 },
+        borderRadius: 2.5,
+        background: 'rgba(255,255,255,0.02)',
+        border: '1px solid rgba(255,255,255,0.05)',
+      }}
+    >
+      <Stack spacing={{ xs: 2, md: 2.5 }} direction={{ xs: 'column', md: 'row' }}>
+        <Stack spacing={1.5} flex={1}>
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Typography variant="overline" sx={overlineSx}>
+              Typography
+            </Typography>
+            <Tooltip title="Reset typography">
+              <span>
+                <IconButton
+                  size="small"
+                  disabled={isDefault}
+                  onClick={() => {
+                    onChange(defaultCaptionDesign)
+                    onCommit()
+                  }}
+                  sx={{ color: 'rgba(247,247,251,0.5)', '&:hover': { color: 'rgba(247,247,251,0.8)' } }}
+                >
+                  <RestartAltRoundedIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Stack>
+          <TextField
+            select
+            size="small"
+            label="Font"
+            value={design.font}
+            onChange={(event) => onChange({ font: event.target.value as CaptionFont })}
+            sx={{
+              '& .MuiInputLabel-root': { fontSize: '0.8rem', color: 'rgba(247,247,251,0.5)' },
+              '& .MuiOutlinedInput-root': {
+                fontSize: '0.8rem',
+                color: '#f7f7fb',
+                '& fieldset': { borderColor: 'rgba(255,255,255,0.1)' },
+                '&:hover fieldset': { borderColor: 'rgba(255,255,255,0.2)' },
+                '&.Mui-focused fieldset': { borderColor: 'rgba(255,193,7,0.5)' },
+              },
+            }}
+          >
+            {Object.entries(captionFonts).map(([key, option]) => (
+              <MenuItem key={key} value={key} sx={{ fontSize: '0.9rem', fontFamily: option.family }}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+          {renderSlider('size', `${design.size}px title`)}
+          {renderSlider('letterSpacing', design.letterSpacing ? `${design.letterSpacing}px letter spacing` : 'Normal spacing')}
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                color="secondary"
+                checked={design.autoFit}
+                onChange={(_event, checked) => onChange({ autoFit: checked })}
+              />
+            }
+            label={
+              <Typography variant="caption" sx={captionSx}>
+                Shrink long titles to fit
+              </Typography>
+            }
+            sx={{ ml: 0 }}
+          />
+        </Stack>
+        <Divider flexItem orientation="vertical" sx={{ display: { xs: 'none', md: 'block' }, borderColor: 'rgba(255,255,255,0.06)' }} />
+        <Stack spacing={1.5} flex={1}>
+          <Typography variant="overline" sx={overlineSx}>
+            Placement
+          </Typography>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            color="primary"
+            value={design.placement}
+            onChange={(_event, value: CaptionPlacement | null) => {
+              if (value) {
+                onChange({ placement: value })
+              }
+            }}
+            sx={toggleGroupSx}
+          >
+            {Object.entries(captionPlacements).map(([key, option]) => (
+              <ToggleButton key={key} value={key}>
+                {option.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            color="primary"
+            value={design.align}
+            onChange={(_event, value: CaptionAlign | null) => {
+              if (value) {
+                onChange({ align: value })
+              }
+            }}
+            sx={toggleGroupSx}
+          >
+            {alignments.map(({ value, label, icon: Icon }) => (
+              <ToggleButton key={value} value={value} aria-label={label}>
+                <Icon sx={{ fontSize: '1rem' }} />
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Tooltip title="Caption color">
+              <Box
+                component="input"
+                type="color"
+                aria-label="Caption color"
+                value={design.color ?? autoColor}
+                onChange={(event: ChangeEvent<HTMLInputElement>) => onChange({ color: event.target.value }, 'color')}
+                onBlur={onCommit}
+                sx={colorInputSx}
+              />
+            </Tooltip>
+            <FormControlLabel
+              control={
+                <Switch
+                  size="small"
+                  color="secondary"
+                  checked={design.color === null}
+                  onChange={(_event, checked) => onChange({ color: checked ? null : autoColor })}
+                />
+              }
+              label={
+                <Typography variant="caption" sx={captionSx}>
+                  Match background
+                </Typography>
+              }
+              sx={{ ml: 0 }}
+            />
+          </Stack>
+        </Stack>
+      </Stack>
+    </Paper>
+  )
+}
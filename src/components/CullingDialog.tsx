@@ -0,0 +1,180 @@
+import { useState } from 'react'
+import {
+  Box,
+  Button,
+  ButtonBase,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Typography,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material'
+import CheckCircleRoundedIcon from '@mui/icons-material/CheckCircleRounded'
+import { isBlurry, isPoorlyExposed, pickBestPhotos } from '../photoQuality'
+import type { PhotoQuality } from '../photoQuality'
+import { PhotoThumbnail } from './PhotoThumbnail'
+
+const THUMBNAIL_SIZE = 96
+
+export interface CullingCandidate {
+  name: string
+  // Small decoded copy; null when the file couldn't be previewed.
+  image: CanvasImageSource | null
+  width: number
+  height: number
+  quality: PhotoQuality | null
+}
+
+interface CullingDialogProps {
+  candidates: CullingCandidate[]
+  // How many photos the collage has room for.
+  limit: number
+  onCancel: () => void
+  // Indices into `candidates`, in their original order.
+  onConfirm: (indices: number[]) => void
+}
+
+const badgeSx = {
+  px: 0.5,
+  borderRadius: 0.5,
+  fontSize: '0.6rem',
+  fontWeight: 600,
+  lineHeight: 1.6,
+  background: 'rgba(5,6,10,0.75)',
+}
+
+const describeIssues = (quality: PhotoQuality | null) => {
+  if (!quality) {
+    return 'No preview'
+  }
+  return [isBlurry(quality) && 'Blurry', isPoorlyExposed(quality) && 'Exposure'].filter(Boolean).join(' · ')
+}
+
+// Lists the import best first with the top `limit` preselected; tapping a photo swaps it in or out.
+export function CullingDialog({ candidates, limit, onCancel, onConfirm }: CullingDialogProps) {
+  const theme = useTheme()
+  const fullScreen = useMediaQuery(theme.breakpoints.down('sm'))
+  const bestPicks = () => pickBestPhotos(candidates.map(({ quality }) => quality), limit)
+  const [selected, setSelected] = useState(bestPicks)
+  const ranked = [...pickBestPhotos(candidates.map(({ quality }) => quality), candidates.length)]
+
+  const toggle = (index: number) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (next.has(index)) {
+        next.delete(index)
+      } else if (next.size < limit) {
+        next.add(index)
+      }
+      return next
+    })
+  }
+
+  return (
+    <Dialog
+      open
+      onClose={onCancel}
+      fullScreen={fullScreen}
+      maxWidth="md"
+      fullWidth
+      slotProps={{
+        paper: {
+          sx: {
+            background: '#0e1118',
+            border: '1px solid rgba(255,255,255,0.06)',
+          },
+        },
+      }}
+    >
+      <DialogTitle sx={{ fontSize: '1rem', fontWeight: 600, pb: 1 }}>
+        Pick the best {limit} of {candidates.length}
+        <Typography
+          component="span"
+          variant="caption"
+          sx={{ display: 'block', color: 'rgba(247,247,251,0.5)', fontSize: '0.7rem' }}
+        >
+          The collage has room for {limit} more photo{limit === 1 ? '' : 's'}. The sharpest, best-exposed ones are
+          selected; tap a photo to change the picks.
+        </Typography>
+      </DialogTitle>
+      <DialogContent>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: `repeat(auto-fill, minmax(${THUMBNAIL_SIZE + 12}px, 1fr))`,
+            gap: 1,
+          }}
+        >
+          {ranked.map((index) => {
+            const candidate = candidates[index]
+            const isSelected = selected.has(index)
+            const issues = describeIssues(candidate.quality)
+            return (
+              <ButtonBase
+                key={index}
+                onClick={() => toggle(index)}
+                aria-pressed={isSelected}
+                disabled={!isSelected && selected.size >= limit}
+                title={candidate.name}
+                sx={{
+                  position: 'relative',
+                  height: THUMBNAIL_SIZE + 12,
+                  borderRadius: 1.5,
+                  border: '2px solid',
+                  borderColor: isSelected ? '#20d5b8' : 'rgba(255,255,255,0.08)',
+                  overflow: 'hidden',
+                  '&.Mui-disabled': { opacity: 0.5 },
+                }}
+              >
+                <Box sx={{ opacity: isSelected ? 1 : 0.45 }}>
+                  {candidate.image ? (
+                    <PhotoThumbnail
+                      image={candidate.image}
+                      width={candidate.width}
+                      height={candidate.height}
+                      size={THUMBNAIL_SIZE}
+                    />
+                  ) : (
+                    <Typography sx={{ fontSize: '0.65rem', color: 'rgba(247,247,251,0.5)', px: 1 }} noWrap>
+                      {candidate.name}
+                    </Typography>
+                  )}
+                </Box>
+                {isSelected && (
+                  <CheckCircleRoundedIcon
+                    sx={{ position: 'absolute', top: 4, right: 4, fontSize: '1rem', color: '#20d5b8' }}
+                  />
+                )}
+                <Stack direction="row" spacing={0.5} sx={{ position: 'absolute', left: 4, bottom: 4 }}>
+                  {candidate.quality && <Box sx={badgeSx}>{candidate.quality.score}</Box>}
+                  {issues && <Box sx={{ ...badgeSx, color: '#f4c95d' }}>{issues}</Box>}
+                </Stack>
+              </ButtonBase>
+            )
+          })}
+        </Box>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Typography sx={{ fontSize: '0.75rem', color: 'rgba(247,247,251,0.5)', mr: 'auto' }}>
+          {selected.size} of {limit} selected
+        </Typography>
+        <Button onClick={() => setSelected(bestPicks())} color="inherit">
+          Select best
+        </Button>
+        <Button onClick={onCancel} color="inherit">
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={!selected.size}
+          onClick={() => onConfirm([...selected].sort((a, b) => a - b))}
+        >
+          Import {selected.size}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react'
+import {
+  Box,
+  Button,
+  ButtonBase,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Typography,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material'
+import CheckCircleRoundedIcon from '@mui/icons-material/CheckCircleRounded'
+import DeleteOutlineRoundedIcon from '@mui/icons-material/DeleteOutlineRounded'
+import type { DuplicateGroup } from '../duplicates'
+import { PhotoThumbnail } from './PhotoThumbnail'
+
+const THUMBNAIL_SIZE = 112
+
+interface ReviewPhoto {
+  name: string
+  width: number
+  height: number
+  image: CanvasImageSource
+  file: Blob
+}
+
+interface DuplicateReviewDialogProps {
+  groups: DuplicateGroup[]
+  photos: Record<string, ReviewPhoto | undefined>
+  onClose: () => void
+  onRemove: (ids: string[]) => void
+}
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+// Suggests keeping the best photo of each group; tapping a photo flips whether it stays.
+export function DuplicateReviewDialog({ groups, photos, onClose, onRemove }: DuplicateReviewDialogProps) {
+  const theme = useTheme()
+  const fullScreen = useMediaQuery(theme.breakpoints.down('sm'))
+  const [removed, setRemoved] = useState(() => new Set(groups.flatMap((group) => group.ids.slice(1))))
+
+  const toggle = (group: DuplicateGroup, id: string) => {
+    setRemoved((current) => {
+      const next = new Set(current)
+      if (next.has(id)) {
+        next.delete(id)
+      } else if (group.ids.some((other) => other !== id && !next.has(other))) {
+        // Every group keeps at least one photo.
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  return (
+    <Dialog
+      open={groups.length > 0}
+      onClose={onClose}
+      fullScreen={fullScreen}
+      maxWidth="md"
+      fullWidth
+      slotProps={{
+        paper: {
+          sx: {
+            background: '#0e1118',
+            border: '1px solid rgba(255,255,255,0.06)',
+          },
+        },
+      }}
+    >
+      <DialogTitle sx={{ fontSize: '1rem', fontWeight: 600, pb: 1 }}>
+        Possible duplicates
+        <Typography
+          component="span"
+          variant="caption"
+          sx={{ display: 'block', color: 'rgba(247,247,251,0.5)', fontSize: '0.7rem' }}
+        >
+          The largest copy of each set is kept. Tap a photo to keep or remove it.
+        </Typography>
+      </DialogTitle>
+      <DialogContent>
+        <Stack spacing={2.5}>
+          {groups.map((group) => (
+            <Stack key={group.ids[0]} spacing={1}>
+              <Chip
+                size="small"
+                label={group.kind === 'exact' ? 'Identical files' : 'Look alike'}
+                sx={{ alignSelf: 'flex-start', fontSize: '0.7rem', height: 22 }}
+              />
+              <Stack direction="row" spacing={1.5} sx={{ overflowX: 'auto', pb: 0.5 }}>
+                {group.ids.map((id) => {
+                  const photo = photos[id]
+                  if (!photo) {
+                    return null
+                  }
+                  const isRemoved = removed.has(id)
+                  return (
+                    <ButtonBase
+                      key={id}
+                      onClick={() => toggle(group, id)}
+                      aria-pressed={!isRemoved}
+                      sx={{
+                        flexShrink: 0,
+                        flexDirection: 'column',
+                        alignItems: 'stretch',
+                        width: THUMBNAIL_SIZE + 12,
+                        p: 0.75,
+                        borderRadius: 1.5,
+                        border: '2px solid',
+                        borderColor: isRemoved ? 'rgba(255,255,255,0.08)' : '#20d5b8',
+                        textAlign: 'left',
+                      }}
+                    >
+                      <Box
+                        sx={{
+                          position: 'relative',
+                          height: THUMBNAIL_SIZE,
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          opacity: isRemoved ? 0.35 : 1,
+                        }}
+                      >
+                        <PhotoThumbnail image={photo.image} width={photo.width} height={photo.height} size={THUMBNAIL_SIZE} />
+                        {isRemoved ? (
+                          <DeleteOutlineRoundedIcon sx={{ position: 'absolute', top: 4, right: 4, fontSize: '1.1rem' }} />
+                        ) : (
+                          <CheckCircleRoundedIcon
+                            sx={{ position: 'absolute', top: 4, right: 4, fontSize: '1.1rem', color: '#20d5b8' }}
+                          />
+                        )}
+                      </Box>
+                      <Typography noWrap sx={{ fontSize: '0.7rem', mt: 0.5 }}>
+                        {photo.name}
+                      </Typography>
+                      <Typography sx={{ fontSize: '0.65rem', color: 'rgba(247,247,251,0.5)' }}>
+                        {photo.width}×{photo.height} · {formatFileSize(photo.file.size)}
+                      </Typography>
+                    </ButtonBase>
+                  )
+                })}
+              </Stack>
+            </Stack>
+          ))}
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} color="inherit">
+          Keep all
+        </Button>
+        <Button variant="contained" disabled={!removed.size} onClick={() => onRemove([...removed])}>
+          {removed.size ? `Remove ${removed.size} photo${removed.size === 1 ? '' : 's'}` : 'Remove'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,410 @@
+import type { PointerEvent as ReactPointerEvent } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  InputAdornment,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material'
+import AutoAwesomeRoundedIcon from '@mui/icons-material/AutoAwesomeRounded'
+import CenterFocusStrongRoundedIcon from '@mui/icons-material/CenterFocusStrongRounded'
+import CropRoundedIcon from '@mui/icons-material/CropRounded'
+import FlipRoundedIcon from '@mui/icons-material/FlipRounded'
+import RestartAltRoundedIcon from '@mui/icons-material/RestartAltRounded'
+import RotateLeftRoundedIcon from '@mui/icons-material/RotateLeftRounded'
+import RotateRightRoundedIcon from '@mui/icons-material/RotateRightRounded'
+import TuneRoundedIcon from '@mui/icons-material/TuneRounded'
+import type { CropRect } from '../layouts'
+import {
+  defaultPhotoEdits,
+  rotateQuarter,
+  toDisplayedPoint,
+  toDisplayedRect,
+  toSourcePoint,
+  toSourceRect,
+} from '../photoEdits'
+import type { PhotoEdits, Point } from '../photoEdits'
+import { applyAdjustments, resolveAdjustments } from '../photoFilters'
+import type { PhotoAdjustments } from '../photoFilters'
+import { AdjustmentControls } from './AdjustmentControls'
+
+const PREVIEW_MAX_WIDTH = 520
+const PREVIEW_MAX_HEIGHT = 400
+const MIN_CROP_SIZE = 0.05
+const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 }
+
+type EditorTool = 'crop' | 'focus' | 'adjust'
+type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se'
+
+interface EditablePhoto {
+  name: string
+  width: number
+  height: number
+  image: CanvasImageSource
+  edits: PhotoEdits
+  caption: string | null
+}
+
+interface PhotoEditorDialogProps {
+  photo: EditablePhoto | null
+  // Label the photo shows without a caption of its own; null while tile labels are off.
+  defaultCaption: string | null
+  // Applied under the photo's own adjustments so the preview matches the collage.
+  collageAdjustments: PhotoAdjustments
+  onClose: () => void
+  onApply: (edits: PhotoEdits, caption: string | null) => void
+}
+
+const clampUnit = (value: number) => Math.min(Math.max(value, 0), 1)
+
+const resizeCrop = (start: CropRect, handle: CropHandle, dx: number, dy: number): CropRect => {
+  if (handle === 'move') {
+    return {
+      ...start,
+      x: Math.min(Math.max(start.x + dx, 0), 1 - start.width),
+      y: Math.min(Math.max(start.y + dy, 0), 1 - start.height),
+    }
+  }
+
+  let left = start.x
+  let top = start.y
+  let right = start.x + start.width
+  let bottom = start.y + start.height
+
+  if (handle === 'nw' || handle === 'sw') left = Math.min(clampUnit(left + dx), right - MIN_CROP_SIZE)
+  if (handle === 'ne' || handle === 'se') right = Math.max(clampUnit(right + dx), left + MIN_CROP_SIZE)
+  if (handle === 'nw' || handle === 'ne') top = Math.min(clampUnit(top + dy), bottom - MIN_CROP_SIZE)
+  if (handle === 'sw' || handle === 'se') bottom = Math.max(clampUnit(bottom + dy), top + MIN_CROP_SIZE)
+
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+const isFullFrame = (rect: CropRect) =>
+  rect.x <= 0.001 && rect.y <= 0.001 && rect.width >= 0.999 && rect.height >= 0.999
+
+export function PhotoEditorDialog({
+  photo,
+  defaultCaption,
+  collageAdjustments,
+  onClose,
+  onApply,
+}: PhotoEditorDialogProps) {
+  const theme = useTheme()
+  const fullScreen = useMediaQuery(theme.breakpoints.down('sm'))
+  const [draft, setDraft] = useState<PhotoEdits>(() => photo?.edits ?? defaultPhotoEdits)
+  const [caption, setCaption] = useState<string | null>(() => photo?.caption ?? null)
+  const [tool, setTool] = useState<EditorTool>('crop')
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const surfaceRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ handle: CropHandle; origin: Point; startRect: CropRect } | null>(null)
+
+  const rotated = draft.rotation === 90 || draft.rotation === 270
+  const displayedWidth = photo ? (rotated ? photo.height : photo.width) : 1
+  const displayedHeight = photo ? (rotated ? photo.width : photo.height) : 1
+  const previewScale = Math.min(PREVIEW_MAX_WIDTH / displayedWidth, PREVIEW_MAX_HEIGHT / displayedHeight, 1)
+  const previewWidth = Math.round(displayedWidth * previewScale)
+  const previewHeight = Math.round(displayedHeight * previewScale)
+
+  // The preview always shows the whole source, turned and mirrored; the crop is an overlay.
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context || !photo) {
+      return
+    }
+
+    canvas.width = previewWidth
+    canvas.height = previewHeight
+    const sourceWidth = rotated ? previewHeight : previewWidth
+    const sourceHeight = rotated ? previewWidth : previewHeight
+
+    context.save()
+    context.translate(previewWidth / 2, previewHeight / 2)
+    context.scale(draft.flipped ? -1 : 1, 1)
+    context.rotate((draft.rotation * Math.PI) / 180)
+    context.drawImage(photo.image, -sourceWidth / 2, -sourceHeight / 2, sourceWidth, sourceHeight)
+    context.restore()
+
+    const adjustments = resolveAdjustments(collageAdjustments, draft.adjustments)
+    if (adjustments) {
+      const pixels = context.getImageData(0, 0, previewWidth, previewHeight)
+      applyAdjustments(pixels.data, adjustments)
+      context.putImageData(pixels, 0, 0)
+    }
+  }, [photo, draft.rotation, draft.flipped, draft.adjustments, collageAdjustments, previewWidth, previewHeight, rotated])
+
+  const displayedCrop = toDisplayedRect(draft.crop ?? FULL_FRAME, draft)
+  const displayedFocus = draft.focus ? toDisplayedPoint(draft.focus, draft) : null
+
+  const getSurfacePoint = (event: ReactPointerEvent) => {
+    const bounds = surfaceRef.current?.getBoundingClientRect()
+    if (!bounds) {
+      return { x: 0.5, y: 0.5 }
+    }
+    return {
+      x: clampUnit((event.clientX - bounds.left) / bounds.width),
+      y: clampUnit((event.clientY - bounds.top) / bounds.height),
+    }
+  }
+
+  const setFocusFromEvent = (event: ReactPointerEvent) => {
+    const point = getSurfacePoint(event)
+    setDraft((current) => ({ ...current, focus: toSourcePoint(point, current) }))
+  }
+
+  const handlePointerDown = (event: ReactPointerEvent, handle: CropHandle = 'move') => {
+    event.preventDefault()
+    event.stopPropagation()
+    surfaceRef.current?.setPointerCapture(event.pointerId)
+
+    if (tool === 'focus') {
+      setFocusFromEvent(event)
+      dragRef.current = { handle: 'move', origin: getSurfacePoint(event), startRect: displayedCrop }
+      return
+    }
+
+    dragRef.current = { handle, origin: getSurfacePoint(event), startRect: displayedCrop }
+  }
+
+  const handlePointerMove = (event: ReactPointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) {
+      return
+    }
+
+    if (tool === 'focus') {
+      setFocusFromEvent(event)
+      return
+    }
+
+    const point = getSurfacePoint(event)
+    const next = resizeCrop(drag.startRect, drag.handle, point.x - drag.origin.x, point.y - drag.origin.y)
+    setDraft((current) => ({ ...current, crop: isFullFrame(next) ? null : toSourceRect(next, current) }))
+  }
+
+  const handlePointerUp = (event: ReactPointerEvent) => {
+    dragRef.current = null
+    surfaceRef.current?.releasePointerCapture(event.pointerId)
+  }
+
+  const handleSize = 14
+  const handles: { handle: CropHandle; left: number; top: number; cursor: string }[] = [
+    { handle: 'nw', left: 0, top: 0, cursor: 'nwse-resize' },
+    { handle: 'ne', left: 1, top: 0, cursor: 'nesw-resize' },
+    { handle: 'sw', left: 0, top: 1, cursor: 'nesw-resize' },
+    { handle: 'se', left: 1, top: 1, cursor: 'nwse-resize' },
+  ]
+
+  return (
+    <Dialog
+      open={Boolean(photo)}
+      onClose={onClose}
+      fullScreen={fullScreen}
+      maxWidth="md"
+      slotProps={{
+        paper: {
+          sx: {
+            background: '#0e1118',
+            border: '1px solid rgba(255,255,255,0.06)',
+          },
+        },
+      }}
+    >
+      <DialogTitle sx={{ fontSize: '1rem', fontWeight: 600, pb: 1 }}>
+        Edit photo
+        <Typography
+          component="span"
+          variant="caption"
+          sx={{ display: 'block', color: 'rgba(247,247,251,0.5)', fontSize: '0.7rem' }}
+        >
+          {photo?.name}
+        </Typography>
+      </DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} alignItems="center">
+          <Box
+            ref={surfaceRef}
+            onPointerDown={(event) => tool === 'focus' && handlePointerDown(event)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            sx={{
+              position: 'relative',
+              width: previewWidth,
+              height: previewHeight,
+              overflow: 'hidden',
+              touchAction: 'none',
+              cursor: tool === 'focus' ? 'crosshair' : 'default',
+              userSelect: 'none',
+            }}
+          >
+            <canvas ref={canvasRef} style={{ display: 'block', width: previewWidth, height: previewHeight }} />
+            <Box
+              onPointerDown={(event) => tool === 'crop' && handlePointerDown(event, 'move')}
+              sx={{
+                position: 'absolute',
+                left: `${displayedCrop.x * 100}%`,
+                top: `${displayedCrop.y * 100}%`,
+                width: `${displayedCrop.width * 100}%`,
+                height: `${displayedCrop.height * 100}%`,
+                border: '2px solid rgba(255,255,255,0.9)',
+                boxShadow: '0 0 0 9999px rgba(5,6,10,0.55)',
+                cursor: tool === 'crop' ? 'move' : 'inherit',
+                pointerEvents: tool === 'crop' ? 'auto' : 'none',
+              }}
+            >
+              {tool === 'crop' && handles.map(({ handle, left, top, cursor }) => (
+                <Box
+                  key={handle}
+                  onPointerDown={(event) => handlePointerDown(event, handle)}
+                  sx={{
+                    position: 'absolute',
+                    left: `calc(${left * 100}% - ${handleSize / 2}px)`,
+                    top: `calc(${top * 100}% - ${handleSize / 2}px)`,
+                    width: handleSize,
+                    height: handleSize,
+                    borderRadius: '50%',
+                    background: '#20d5b8',
+                    border: '2px solid #05060a',
+                    cursor,
+                  }}
+                />
+              ))}
+            </Box>
+            {displayedFocus && (
+              <Box
+                sx={{
+                  position: 'absolute',
+                  left: `calc(${displayedFocus.x * 100}% - 10px)`,
+                  top: `calc(${displayedFocus.y * 100}% - 10px)`,
+                  width: 20,
+                  height: 20,
+                  borderRadius: '50%',
+                  border: '2px solid #f4c95d',
+                  boxShadow: '0 0 0 2px rgba(5,6,10,0.6)',
+                  pointerEvents: 'none',
+                }}
+              />
+            )}
+          </Box>
+          <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" justifyContent="center">
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              color="primary"
+              value={tool}
+              onChange={(_event, value: EditorTool | null) => {
+                if (value) {
+                  setTool(value)
+                }
+              }}
+            >
+              <ToggleButton value="crop" aria-label="Crop">
+                <CropRoundedIcon fontSize="small" sx={{ mr: 0.5 }} />
+                Crop
+              </ToggleButton>
+              <ToggleButton value="focus" aria-label="Focal point">
+                <CenterFocusStrongRoundedIcon fontSize="small" sx={{ mr: 0.5 }} />
+                Focus
+              </ToggleButton>
+              <ToggleButton value="adjust" aria-label="Adjust">
+                <TuneRoundedIcon fontSize="small" sx={{ mr: 0.5 }} />
+                Adjust
+              </ToggleButton>
+            </ToggleButtonGroup>
+            <Tooltip title="Rotate left">
+              <IconButton
+                size="small"
+                onClick={() => setDraft((current) => ({ ...current, rotation: rotateQuarter(current.rotation, -1) }))}
+              >
+                <RotateLeftRoundedIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title="Rotate right">
+              <IconButton
+                size="small"
+                onClick={() => setDraft((current) => ({ ...current, rotation: rotateQuarter(current.rotation, 1) }))}
+              >
+                <RotateRightRoundedIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title="Flip horizontally">
+              <IconButton
+                size="small"
+                onClick={() => setDraft((current) => ({ ...current, flipped: !current.flipped }))}
+              >
+                <FlipRoundedIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title="Reset edits">
+              <IconButton size="small" onClick={() => setDraft(defaultPhotoEdits)}>
+                <RestartAltRoundedIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+          <Typography variant="caption" sx={{ color: 'rgba(247,247,251,0.5)', fontSize: '0.7rem', textAlign: 'center' }}>
+            {tool === 'crop' && 'Drag the frame or its corners to crop.'}
+            {tool === 'focus' && 'Tap the subject to keep it in frame when a layout has to crop this photo.'}
+            {tool === 'adjust' && 'Adds to the adjustments applied to the whole collage.'}
+          </Typography>
+          {tool === 'adjust' && (
+            <Box sx={{ width: '100%', maxWidth: PREVIEW_MAX_WIDTH }}>
+              <AdjustmentControls
+                value={draft.adjustments}
+                onChange={(patch) => setDraft((current) => ({ ...current, adjustments: { ...current.adjustments, ...patch } }))}
+              />
+            </Box>
+          )}
+          {defaultCaption !== null && (
+            <TextField
+              size="small"
+              fullWidth
+              label="Label"
+              placeholder={defaultCaption || 'No label'}
+              value={caption ?? ''}
+              onChange={(event) => setCaption(event.target.value)}
+              helperText={
+                caption === null ? 'Uses the default label for the collage.' : caption ? undefined : 'This photo shows no label.'
+              }
+              slotProps={{
+                inputLabel: { shrink: true },
+                input: {
+                  endAdornment: caption !== null && (
+                    <InputAdornment position="end">
+                      <Tooltip title="Use default label">
+                        <IconButton size="small" edge="end" onClick={() => setCaption(null)}>
+                          <AutoAwesomeRoundedIcon sx={{ fontSize: '1rem' }} />
+                        </IconButton>
+                      </Tooltip>
+                    </InputAdornment>
+                  ),
+                },
+              }}
+              sx={{ maxWidth: PREVIEW_MAX_WIDTH }}
+            />
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} color="inherit">
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={() => onApply(draft, caption)}>
+          Apply
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react'
+
+interface PhotoThumbnailProps {
+  image: CanvasImageSource
+  width: number
+  height: number
+  // Longest side in CSS pixels.
+  size: number
+}
+
+/** Draws a decoded photo into a small canvas, fitted inside a `size` square. */
+export function PhotoThumbnail({ image, width, height, size }: PhotoThumbnailProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const scale = Math.min(size / width, size / height)
+  const drawWidth = Math.max(1, Math.round(width * scale))
+  const drawHeight = Math.max(1, Math.round(height * scale))
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d')
+    context?.drawImage(image, 0, 0, drawWidth, drawHeight)
+  }, [image, drawWidth, drawHeight])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={drawWidth}
+      height={drawHeight}
+      style={{ display: 'block', width: drawWidth, height: drawHeight }}
+    />
+  )
+}
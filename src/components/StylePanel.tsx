@@ -0,0 +1,192 @@
+import type { ChangeEvent } from 'react'
+import {
+  Box,
+  Divider,
+  IconButton,
+  Paper,
+  Slider,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import RestartAltRoundedIcon from '@mui/icons-material/RestartAltRounded'
+import { backgroundKinds, defaultCollageStyle, styleLimits } from '../collageStyle'
+import type { BackgroundKind, CollageStyle } from '../collageStyle'
+
+interface StylePanelProps {
+  style: CollageStyle
+  // `coalesceKey` groups a continuous edit (a slider drag, a colour picker) into one undo step.
+  onChange: (patch: Partial<CollageStyle>, coalesceKey?: string) => void
+  onCommit: () => void
+  // With a transparent export there is no frame to colour.
+  backgroundDisabled: boolean
+}
+
+type SliderKey = keyof typeof styleLimits
+
+const overlineSx = {
+  fontSize: '0.65rem',
+  color: 'rgba(247,247,251,0.4)',
+  letterSpacing: '0.1em',
+  fontWeight: 600,
+}
+
+const captionSx = { fontSize: '0.7rem', color: 'rgba(247,247,251,0.5)' }
+
+const colorInputSx = {
+  width: 32,
+  height: 24,
+  p: 0,
+  border: '1px solid rgba(255,255,255,0.15)',
+  borderRadius: 1,
+  background: 'none',
+  cursor: 'pointer',
+  '&:disabled': { cursor: 'default', opacity: 0.4 },
+}
+
+const sliders: { key: SliderKey; label: (value: number) => string }[] = [
+  { key: 'gutter', label: (value) => (value ? `${value}px spacing` : 'No gap') },
+  { key: 'padding', label: (value) => (value ? `${value}px padding` : 'No padding') },
+  { key: 'cornerRadius', label: (value) => (value ? `${value}px corners` : 'Square corners') },
+  { key: 'shadow', label: (value) => (value ? `${value}% shadow` : 'No shadow') },
+]
+
+export function StylePanel({ style, onChange, onCommit, backgroundDisabled }: StylePanelProps) {
+  const isDefault = (Object.keys(defaultCollageStyle) as (keyof CollageStyle)[]).every(
+    (key) => style[key] === defaultCollageStyle[key],
+  )
+
+  const renderSlider = (key: SliderKey, label: string, disabled = false) => (
+    <Box key={key}>
+      <Typography variant="caption" sx={{ ...captionSx, opacity: disabled ? 0.4 : 1 }}>
+        {label}
+      </Typography>
+      <Slider
+        value={style[key]}
+        min={styleLimits[key].min}
+        max={styleLimits[key].max}
+        step={styleLimits[key].step}
+        size="small"
+        disabled={disabled}
+        onChange={(_event, value) => onChange({ [key]: value as number }, key)}
+        onChangeCommitted={onCommit}
+        sx={{ mt: 0.5 }}
+      />
+    </Box>
+  )
+
+  const renderColorInput = (key: 'color' | 'gradientFrom' | 'gradientTo', label: string) => (
+    <Tooltip title={label}>
+      <Box
+        component="input"
+        type="color"
+        aria-label={label}
+        value={style[key]}
+        disabled={backgroundDisabled}
+        onChange={(event: ChangeEvent<HTMLInputElement>) => onChange({ [key]: event.target.value }, key)}
+        onBlur={onCommit}
+        sx={colorInputSx}
+      />
+    </Tooltip>
+  )
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: { xs: 2, md: 2.5 },
+        borderRadius: 2.5,
+        background: 'rgba(255,255,255,0.02)',
+        border: '1px solid rgba(255,255,255,0.05)',
+      }}
+    >
+      <Stack spacing={{ xs: 2, md: 2.5 }} direction={{ xs: 'column', md: 'row' }}>
+        <Stack spacing={1} flex={1}>
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Typography variant="overline" sx={overlineSx}>
+              Style
+            </Typography>
+            <Tooltip title="Reset style">
+              <span>
+                <IconButton
+                  size="small"
+                  disabled={isDefault}
+                  onClick={() => {
+                    onChange(defaultCollageStyle)
+                    onCommit()
+                  }}
+                  sx={{ color: 'rgba(247,247,251,0.5)', '&:hover': { color: 'rgba(247,247,251,0.8)' } }}
+                >
+                  <RestartAltRoundedIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Stack>
+          {sliders.map(({ key, label }) => renderSlider(key, label(style[key])))}
+        </Stack>
+        <Divider flexItem orientation="vertical" sx={{ display: { xs: 'none', md: 'block' }, borderColor: 'rgba(255,255,255,0.06)' }} />
+        <Stack spacing={1.5} flex={1}>
+          <Typography variant="overline" sx={overlineSx}>
+            Background
+          </Typography>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            color="primary"
+            value={style.background}
+            disabled={backgroundDisabled}
+            onChange={(_event, value: BackgroundKind | null) => {
+              if (value) {
+                onChange({ background: value })
+              }
+            }}
+            sx={{
+              '& .MuiToggleButton-root': {
+                fontSize: '0.75rem',
+                py: 0.5,
+                px: 1.5,
+                textTransform: 'none',
+                fontWeight: 500,
+              },
+            }}
+          >
+            {Object.entries(backgroundKinds).map(([key, option]) => (
+              <ToggleButton key={key} value={key}>
+                {option.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          {style.background === 'solid' && (
+            <Stack direction="row" spacing={1} alignItems="center">
+              {renderColorInput('color', 'Background color')}
+              <Typography variant="caption" sx={captionSx}>
+                {style.color.toUpperCase()}
+              </Typography>
+            </Stack>
+          )}
+          {style.background === 'gradient' && (
+            <>
+              <Stack direction="row" spacing={1} alignItems="center">
+                {renderColorInput('gradientFrom', 'Start color')}
+                {renderColorInput('gradientTo', 'End color')}
+              </Stack>
+              {renderSlider('gradientAngle', `${style.gradientAngle}° angle`, backgroundDisabled)}
+            </>
+          )}
+          {style.background === 'photo' && (
+            <Typography variant="caption" sx={captionSx}>
+              A blurred copy of the first photo fills the frame.
+            </Typography>
+          )}
+          {backgroundDisabled && (
+            <Typography variant="caption" sx={captionSx}>
+              The transparent export leaves the background empty.
+            </Typography>
+          )}
+        </Stack>
+      </Stack>
+    </Paper>
+  )
+}
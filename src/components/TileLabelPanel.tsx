@@ -0,0 +1,224 @@
+import {
+  Box,
+  Button,
+  Divider,
+  MenuItem,
+  Paper,
+  Slider,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material'
+import FormatAlignCenterRoundedIcon from '@mui/icons-material/FormatAlignCenterRounded'
+import FormatAlignLeftRoundedIcon from '@mui/icons-material/FormatAlignLeftRounded'
+import FormatAlignRightRoundedIcon from '@mui/icons-material/FormatAlignRightRounded'
+import FormatListNumberedRoundedIcon from '@mui/icons-material/FormatListNumberedRounded'
+import RestartAltRoundedIcon from '@mui/icons-material/RestartAltRounded'
+import { captionFonts } from '../captionDesign'
+import type { CaptionAlign, CaptionFont } from '../captionDesign'
+import { tileLabelLimits, tileLabelModes, tileLabelSources } from '../tileLabels'
+import type { TileLabelMode, TileLabelSource, TileLabelStyle } from '../tileLabels'
+
+interface TileLabelPanelProps {
+  style: TileLabelStyle
+  // `coalesceKey` groups a continuous edit (a slider drag) into one undo step.
+  onChange: (patch: Partial<TileLabelStyle>, coalesceKey?: string) => void
+  onCommit: () => void
+  onNumberPhotos: () => void
+  onResetLabels: () => void
+  // Whether any photo has a label of its own, which the reset would discard.
+  hasCustomLabels: boolean
+}
+
+const overlineSx = {
+  fontSize: '0.65rem',
+  color: 'rgba(247,247,251,0.4)',
+  letterSpacing: '0.1em',
+  fontWeight: 600,
+}
+
+const captionSx = { fontSize: '0.7rem', color: 'rgba(247,247,251,0.5)' }
+
+const toggleGroupSx = {
+  '& .MuiToggleButton-root': {
+    fontSize: '0.75rem',
+    py: 0.5,
+    px: 1.5,
+    textTransform: 'none',
+    fontWeight: 500,
+  },
+}
+
+const selectSx = {
+  '& .MuiInputLabel-root': { fontSize: '0.8rem', color: 'rgba(247,247,251,0.5)' },
+  '& .MuiOutlinedInput-root': {
+    fontSize: '0.8rem',
+    color: '#f7f7fb',
+    '& fieldset': { borderColor: 'rgba(255,255,255,0.1)' },
+    '&:hover fieldset': { borderColor: 'rgba(255,255,255,0.2)' },
+    '&.Mui-focused fieldset': { borderColor: 'rgba(255,193,7,0.5)' },
+  },
+}
+
+const actionSx = {
+  justifyContent: 'flex-start',
+  fontSize: '0.75rem',
+  color: 'rgba(247,247,251,0.7)',
+}
+
+const alignments: { value: CaptionAlign; label: string; icon: typeof FormatAlignLeftRoundedIcon }[] = [
+  { value: 'left', label: 'Align left', icon: FormatAlignLeftRoundedIcon },
+  { value: 'center', label: 'Center', icon: FormatAlignCenterRoundedIcon },
+  { value: 'right', label: 'Align right', icon: FormatAlignRightRoundedIcon },
+]
+
+export function TileLabelPanel({
+  style,
+  onChange,
+  onCommit,
+  onNumberPhotos,
+  onResetLabels,
+  hasCustomLabels,
+}: TileLabelPanelProps) {
+  const enabled = style.mode !== 'off'
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: { xs: 2, md: 2.5 },
+        borderRadius: 2.5,
+        background: 'rgba(255,255,255,0.02)',
+        border: '1px solid rgba(255,255,255,0.05)',
+      }}
+    >
+      <Stack spacing={{ xs: 2, md: 2.5 }} direction={{ xs: 'column', md: 'row' }}>
+        <Stack spacing={1.5} flex={1}>
+          <Typography variant="overline" sx={overlineSx}>
+            Photo labels
+          </Typography>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            color="primary"
+            value={style.mode}
+            onChange={(_event, value: TileLabelMode | null) => {
+              if (value) {
+                onChange({ mode: value })
+              }
+            }}
+            sx={toggleGroupSx}
+          >
+            {Object.entries(tileLabelModes).map(([key, option]) => (
+              <ToggleButton key={key} value={key}>
+                {option.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          {enabled ? (
+            <TextField
+              select
+              size="small"
+              label="Default label"
+              value={style.source}
+              onChange={(event) => onChange({ source: event.target.value as TileLabelSource })}
+              sx={selectSx}
+            >
+              {Object.entries(tileLabelSources).map(([key, option]) => (
+                <MenuItem key={key} value={key} sx={{ fontSize: '0.85rem' }}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+          ) : (
+            <Typography variant="caption" sx={captionSx}>
+              Show a name, place or step number on every photo.
+            </Typography>
+          )}
+        </Stack>
+        {enabled && (
+          <>
+            <Divider flexItem orientation="vertical" sx={{ display: { xs: 'none', md: 'block' }, borderColor: 'rgba(255,255,255,0.06)' }} />
+            <Stack spacing={1.5} flex={1}>
+              <TextField
+                select
+                size="small"
+                label="Font"
+                value={style.font}
+                onChange={(event) => onChange({ font: event.target.value as CaptionFont })}
+                sx={selectSx}
+              >
+                {Object.entries(captionFonts).map(([key, option]) => (
+                  <MenuItem key={key} value={key} sx={{ fontSize: '0.9rem', fontFamily: option.family }}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <Box>
+                <Typography variant="caption" sx={captionSx}>
+                  {style.size}px text
+                </Typography>
+                <Slider
+                  value={style.size}
+                  min={tileLabelLimits.size.min}
+                  max={tileLabelLimits.size.max}
+                  step={tileLabelLimits.size.step}
+                  size="small"
+                  onChange={(_event, value) => onChange({ size: value as number }, 'size')}
+                  onChangeCommitted={onCommit}
+                  sx={{ mt: 0.5 }}
+                />
+              </Box>
+              <ToggleButtonGroup
+                exclusive
+                size="small"
+                color="primary"
+                value={style.align}
+                onChange={(_event, value: CaptionAlign | null) => {
+                  if (value) {
+                    onChange({ align: value })
+                  }
+                }}
+                sx={toggleGroupSx}
+              >
+                {alignments.map(({ value, label, icon: Icon }) => (
+                  <ToggleButton key={value} value={value} aria-label={label}>
+                    <Icon sx={{ fontSize: '1rem' }} />
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Stack>
+            <Divider flexItem orientation="vertical" sx={{ display: { xs: 'none', md: 'block' }, borderColor: 'rgba(255,255,255,0.06)' }} />
+            <Stack spacing={1} flex={1}>
+              <Typography variant="overline" sx={overlineSx}>
+                All photos
+              </Typography>
+              <Button
+                size="small"
+                startIcon={<FormatListNumberedRoundedIcon fontSize="small" />}
+                onClick={onNumberPhotos}
+                sx={actionSx}
+              >
+                Number photos
+              </Button>
+              <Button
+                size="small"
+                startIcon={<RestartAltRoundedIcon fontSize="small" />}
+                disabled={!hasCustomLabels}
+                onClick={onResetLabels}
+                sx={actionSx}
+              >
+                Use default labels
+              </Button>
+              <Typography variant="caption" sx={captionSx}>
+                Tap a photo to give it its own label.
+              </Typography>
+            </Stack>
+          </>
+        )}
+      </Stack>
+    </Paper>
+  )
+}
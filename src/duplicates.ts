@@ -0,0 +1,143 @@
+// Perceptual hashing for spotting the same photo imported twice: burst shots, re-shared
+// copies, screenshots of a photo. Each photo is reduced to a 64-bit difference hash (dHash)
+// from its decoded image, so comparing two photos is a popcount.
+
+const HASH_WIDTH = 9
+const HASH_HEIGHT = 8
+// The photo is first scaled to a small multiple of the hash grid and box-averaged down,
+// because browsers alias badly when shrinking a full-size bitmap straight to 9×8.
+const SAMPLE_FACTOR = 4
+// Out of 64 bits; burst shots and recompressed copies usually land well under this.
+const NEAR_DUPLICATE_DISTANCE = 10
+
+export type DuplicateKind = 'exact' | 'near'
+
+export interface HashablePhoto {
+  id: string
+  width: number
+  height: number
+  file: Blob
+  hash: bigint | null
+}
+
+export interface DuplicateGroup {
+  // Best photo first; the rest are the candidates to drop.
+  ids: string[]
+  kind: DuplicateKind
+}
+
+// One small canvas serves every import, so hashing adds no per-photo allocations.
+let sampleContext: CanvasRenderingContext2D | null = null
+
+const getSampleContext = () => {
+  if (!sampleContext) {
+    const canvas = document.createElement('canvas')
+    canvas.width = HASH_WIDTH * SAMPLE_FACTOR
+    canvas.height = HASH_HEIGHT * SAMPLE_FACTOR
+    sampleContext = canvas.getContext('2d', { willReadFrequently: true })
+  }
+  return sampleContext
+}
+
+/** 64-bit dHash of a decoded photo, or null when the image can't be sampled. */
+export const computePhotoHash = (image: CanvasImageSource): bigint | null => {
+  const context = getSampleContext()
+  if (!context) {
+    return null
+  }
+
+  const sampleWidth = HASH_WIDTH * SAMPLE_FACTOR
+  const sampleHeight = HASH_HEIGHT * SAMPLE_FACTOR
+  let pixels: Uint8ClampedArray
+  try {
+    context.imageSmoothingQuality = 'high'
+    context.clearRect(0, 0, sampleWidth, sampleHeight)
+    context.drawImage(image, 0, 0, sampleWidth, sampleHeight)
+    pixels = context.getImageData(0, 0, sampleWidth, sampleHeight).data
+  } catch (error) {
+    console.warn('Unable to hash photo', error)
+    return null
+  }
+
+  const luma = new Float32Array(HASH_WIDTH * HASH_HEIGHT)
+  for (let y = 0; y < sampleHeight; y += 1) {
+    for (let x = 0; x < sampleWidth; x += 1) {
+      const i = (y * sampleWidth + x) * 4
+      const cell = Math.floor(y / SAMPLE_FACTOR) * HASH_WIDTH + Math.floor(x / SAMPLE_FACTOR)
+      luma[cell] += 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2]
+    }
+  }
+
+  let hash = 0n
+  for (let y = 0; y < HASH_HEIGHT; y += 1) {
+    for (let x = 0; x < HASH_WIDTH - 1; x += 1) {
+      const cell = y * HASH_WIDTH + x
+      hash = (hash << 1n) | (luma[cell] > luma[cell + 1] ? 1n : 0n)
+    }
+  }
+  return hash
+}
+
+const hashDistance = (a: bigint, b: bigint) => {
+  let bits = a ^ b
+  let count = 0
+  while (bits) {
+    bits &= bits - 1n
+    count += 1
+  }
+  return count
+}
+
+// More decoded pixels first, then the bigger file: re-shared copies are usually smaller
+// and more compressed than the original.
+const compareQuality = (a: HashablePhoto, b: HashablePhoto) =>
+  b.width * b.height - a.width * a.height || b.file.size - a.file.size
+
+/**
+ * Groups photos whose hashes are within the near-duplicate distance of each other
+ * (transitively). Only groups containing at least one of `candidateIds` are returned,
+ * so an import is only checked against itself and what is already on the canvas.
+ */
+export const findDuplicateGroups = (photos: HashablePhoto[], candidateIds: Set<string>): DuplicateGroup[] => {
+  const hashed = photos.filter((photo) => photo.hash !== null)
+  const parent = hashed.map((_photo, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+  const exactPairs = new Set<string>()
+
+  hashed.forEach((photo, i) => {
+    for (let j = i + 1; j < hashed.length; j += 1) {
+      const other = hashed[j]
+      const distance = hashDistance(photo.hash as bigint, other.hash as bigint)
+      if (distance > NEAR_DUPLICATE_DISTANCE) {
+        continue
+      }
+      parent[find(j)] = find(i)
+      if (distance === 0 && photo.file.size === other.file.size) {
+        exactPairs.add(`${i}:${j}`)
+      }
+    }
+  })
+
+  const members = new Map<number, number[]>()
+  hashed.forEach((_photo, index) => {
+    const root = find(index)
+    members.set(root, [...(members.get(root) ?? []), index])
+  })
+
+  return [...members.values()]
+    .filter((indices) => indices.length > 1 && indices.some((index) => candidateIds.has(hashed[index].id)))
+    .map((indices) => {
+      // A group is exact only when every member is a byte-for-byte size match of the first.
+      const exact = indices.slice(1).every((index) => exactPairs.has(`${indices[0]}:${index}`))
+      return {
+        ids: indices.map((index) => hashed[index]).sort(compareQuality).map((photo) => photo.id),
+        kind: exact ? 'exact' : 'near',
+      }
+    })
+}
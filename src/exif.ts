@@ -0,0 +1,277 @@
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8
+
+export interface PhotoMetadata {
+  orientation: ExifOrientation
+  capturedAt: number | null
+  cameraModel: string | null
+  hasGps: boolean
+  /** Pixel size stored in the JPEG frame header, i.e. before orientation is applied. */
+  frameWidth: number | null
+  frameHeight: number | null
+}
+
+// APP1 segments are capped at 64 KB, but ICC profiles and thumbnails can push the
+// frame header further back, so read a little more than strictly needed.
+const METADATA_READ_BYTES = 256 * 1024
+
+const TAG_MAKE = 0x010f
+const TAG_MODEL = 0x0110
+const TAG_ORIENTATION = 0x0112
+const TAG_DATE_TIME = 0x0132
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+const TAG_DATE_TIME_DIGITIZED = 0x9004
+
+const TYPE_ASCII = 2
+const TYPE_SHORT = 3
+const TYPE_LONG = 4
+
+const emptyMetadata = (): PhotoMetadata => ({
+  orientation: 1,
+  capturedAt: null,
+  cameraModel: null,
+  hasGps: false,
+  frameWidth: null,
+  frameHeight: null,
+})
+
+export const orientationSwapsAxes = (orientation: ExifOrientation) => orientation >= 5
+
+// Maps the drawing context so a source of `width` x `height` (stored pixels) lands upright.
+export const applyOrientationTransform = (
+  context: CanvasRenderingContext2D,
+  orientation: ExifOrientation,
+  width: number,
+  height: number,
+) => {
+  switch (orientation) {
+    case 2:
+      context.transform(-1, 0, 0, 1, width, 0)
+      break
+    case 3:
+      context.transform(-1, 0, 0, -1, width, height)
+      break
+    case 4:
+      context.transform(1, 0, 0, -1, 0, height)
+      break
+    case 5:
+      context.transform(0, 1, 1, 0, 0, 0)
+      break
+    case 6:
+      context.transform(0, 1, -1, 0, height, 0)
+      break
+    case 7:
+      context.transform(0, -1, -1, 0, height, width)
+      break
+    case 8:
+      context.transform(0, -1, 1, 0, 0, width)
+      break
+    default:
+      break
+  }
+}
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS" in the camera's local time without a zone.
+const parseExifDate = (value: string | null) => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/)
+  if (!match) {
+    return null
+  }
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number)
+  if (!year || !month || !day) {
+    return null
+  }
+  const timestamp = new Date(year, month - 1, day, hours, minutes, seconds).getTime()
+  return Number.isFinite(timestamp) ? timestamp : null
+}
+
+const readAscii = (view: DataView, start: number, length: number) => {
+  let text = ''
+  for (let i = 0; i < length && start + i < view.byteLength; i += 1) {
+    const code = view.getUint8(start + i)
+    if (code === 0) {
+      break
+    }
+    text += String.fromCharCode(code)
+  }
+  return text.trim() || null
+}
+
+interface IfdEntry {
+  type: number
+  count: number
+  valueOffset: number
+}
+
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean) => {
+  const entries = new Map<number, IfdEntry>()
+  const start = tiffStart + ifdOffset
+  if (start + 2 > view.byteLength) {
+    return entries
+  }
+
+  const count = view.getUint16(start, little)
+  for (let i = 0; i < count; i += 1) {
+    const entry = start + 2 + i * 12
+    if (entry + 12 > view.byteLength) {
+      break
+    }
+    entries.set(view.getUint16(entry, little), {
+      type: view.getUint16(entry + 2, little),
+      count: view.getUint32(entry + 4, little),
+      valueOffset: entry + 8,
+    })
+  }
+  return entries
+}
+
+const readTiff = (view: DataView, tiffStart: number, metadata: PhotoMetadata) => {
+  const byteOrder = view.getUint16(tiffStart)
+  const little = byteOrder === 0x4949
+  if (!little && byteOrder !== 0x4d4d) {
+    return
+  }
+  if (view.getUint16(tiffStart + 2, little) !== 42) {
+    return
+  }
+
+  const stringValue = (entry: IfdEntry | undefined) => {
+    if (!entry || entry.type !== TYPE_ASCII) {
+      return null
+    }
+    const start = entry.count > 4 ? tiffStart + view.getUint32(entry.valueOffset, little) : entry.valueOffset
+    return readAscii(view, start, entry.count)
+  }
+
+  const numberValue = (entry: IfdEntry | undefined) => {
+    if (!entry) {
+      return null
+    }
+    if (entry.type === TYPE_SHORT) {
+      return view.getUint16(entry.valueOffset, little)
+    }
+    if (entry.type === TYPE_LONG) {
+      return view.getUint32(entry.valueOffset, little)
+    }
+    return null
+  }
+
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little)
+
+  const orientation = numberValue(ifd0.get(TAG_ORIENTATION))
+  if (orientation && orientation >= 1 && orientation <= 8) {
+    metadata.orientation = orientation as ExifOrientation
+  }
+
+  const make = stringValue(ifd0.get(TAG_MAKE))
+  const model = stringValue(ifd0.get(TAG_MODEL))
+  if (model) {
+    metadata.cameraModel = make && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model
+  } else if (make) {
+    metadata.cameraModel = make
+  }
+
+  metadata.hasGps = ifd0.has(TAG_GPS_IFD)
+
+  let capturedAt: number | null = null
+  const exifOffset = numberValue(ifd0.get(TAG_EXIF_IFD))
+  if (exifOffset) {
+    const exifIfd = readIfd(view, tiffStart, exifOffset, little)
+    capturedAt =
+      parseExifDate(stringValue(exifIfd.get(TAG_DATE_TIME_ORIGINAL))) ??
+      parseExifDate(stringValue(exifIfd.get(TAG_DATE_TIME_DIGITIZED)))
+  }
+  metadata.capturedAt = capturedAt ?? parseExifDate(stringValue(ifd0.get(TAG_DATE_TIME)))
+}
+
+const isStartOfFrame = (marker: number) =>
+  marker >= 0xffc0 && marker <= 0xffcf && marker !== 0xffc4 && marker !== 0xffc8 && marker !== 0xffcc
+
+export const parseJpegMetadata = (buffer: ArrayBuffer): PhotoMetadata => {
+  const metadata = emptyMetadata()
+  const view = new DataView(buffer)
+
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return metadata
+  }
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda || marker === 0xffd9) {
+      break
+    }
+    const length = view.getUint16(offset + 2)
+
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      // "Exif\0\0" is followed by a regular TIFF structure.
+      try {
+        readTiff(view, offset + 10, metadata)
+      } catch (error) {
+        console.warn('Ignoring malformed EXIF block', error)
+      }
+    } else if (isStartOfFrame(marker) && offset + 9 <= view.byteLength) {
+      metadata.frameHeight = view.getUint16(offset + 5)
+      metadata.frameWidth = view.getUint16(offset + 7)
+      break
+    }
+
+    offset += 2 + length
+  }
+
+  return metadata
+}
+
+const isTiffHeader = (view: DataView, offset: number) => {
+  if (offset + 8 > view.byteLength) {
+    return false
+  }
+  const byteOrder = view.getUint16(offset)
+  return (byteOrder === 0x4949 || byteOrder === 0x4d4d) && view.getUint16(offset + 2, byteOrder === 0x4949) === 42
+}
+
+// HEIF keeps EXIF in an item of its own, after an "Exif\0\0" header; scanning for it avoids
+// parsing the box structure.
+const findEmbeddedTiff = (view: DataView) => {
+  for (let offset = 0; offset + 6 <= view.byteLength; offset += 1) {
+    if (view.getUint32(offset) === 0x45786966 && view.getUint16(offset + 4) === 0 && isTiffHeader(view, offset + 6)) {
+      return offset + 6
+    }
+  }
+  return null
+}
+
+/** Reads JPEG metadata, RAW files (which are TIFF containers) and the EXIF inside HEIC files. */
+export const parsePhotoMetadata = (buffer: ArrayBuffer): PhotoMetadata => {
+  const view = new DataView(buffer)
+  if (view.byteLength >= 2 && view.getUint16(0) === 0xffd8) {
+    return parseJpegMetadata(buffer)
+  }
+
+  const metadata = emptyMetadata()
+  const tiffStart = isTiffHeader(view, 0) ? 0 : findEmbeddedTiff(view)
+  if (tiffStart === null) {
+    return metadata
+  }
+  try {
+    readTiff(view, tiffStart, metadata)
+  } catch (error) {
+    console.warn('Ignoring malformed EXIF block', error)
+  }
+  if (tiffStart > 0) {
+    // HEIF decoders apply the container's own rotation; the EXIF tag would turn it twice.
+    metadata.orientation = 1
+  }
+  return metadata
+}
+
+export const readPhotoMetadata = async (file: File): Promise<PhotoMetadata> => {
+  try {
+    const buffer = await file.slice(0, METADATA_READ_BYTES).arrayBuffer()
+    return parsePhotoMetadata(buffer)
+  } catch (error) {
+    console.warn(`Unable to read metadata for ${file.name}`, error)
+    return emptyMetadata()
+  }
+}
@@ -0,0 +1,65 @@
+export type ExportFormat = 'jpeg' | 'png' | 'webp' | 'avif'
+
+export interface ExportFormatInfo {
+  label: string
+  mimeType: string
+  extension: string
+  lossless: boolean
+  supportsTransparency: boolean
+}
+
+export const exportFormats: Record<ExportFormat, ExportFormatInfo> = {
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossless: false, supportsTransparency: false },
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', lossless: true, supportsTransparency: true },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossless: false, supportsTransparency: true },
+  avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossless: false, supportsTransparency: true },
+}
+
+export type QualityLevel = 'high' | 'medium' | 'low'
+
+// The same `quality` number means very different things per encoder: WebP at 0.8 looks
+// like JPEG at ~0.9, and AVIF holds up well down to ~0.5. These rows line the presets up
+// by visual result rather than by number. PNG ignores quality altogether.
+const qualityByFormat: Record<Exclude<ExportFormat, 'png'>, Record<QualityLevel, number>> = {
+  jpeg: { high: 0.95, medium: 0.85, low: 0.72 },
+  webp: { high: 0.9, medium: 0.78, low: 0.62 },
+  avif: { high: 0.75, medium: 0.55, low: 0.4 },
+}
+
+export const resolveExportQuality = (format: ExportFormat, level: QualityLevel) =>
+  format === 'png' ? 1 : qualityByFormat[format][level]
+
+// Below these the artefacts outweigh the bytes saved, so a size limit shrinks pixels instead.
+const minimumQualityByFormat: Record<Exclude<ExportFormat, 'png'>, number> = {
+  jpeg: 0.5,
+  webp: 0.45,
+  avif: 0.3,
+}
+
+export const resolveMinimumQuality = (format: ExportFormat) =>
+  format === 'png' ? 1 : minimumQualityByFormat[format]
+
+let supportedFormats: ExportFormat[] | null = null
+
+// Browsers silently fall back to PNG for encoders they lack, so probe each MIME type once.
+export const getSupportedExportFormats = (): ExportFormat[] => {
+  if (supportedFormats) {
+    return supportedFormats
+  }
+  if (typeof document === 'undefined') {
+    return ['jpeg', 'png']
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = 1
+  canvas.height = 1
+  supportedFormats = (Object.keys(exportFormats) as ExportFormat[]).filter((format) => {
+    const { mimeType } = exportFormats[format]
+    try {
+      return canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`)
+    } catch {
+      return false
+    }
+  })
+  return supportedFormats
+}
@@ -0,0 +1,185 @@
+// Turns the different ways photos reach the app (drops of files, folders or links from
+// other tabs, the clipboard, folder pickers) into plain File lists for the import pipeline.
+
+const IMAGE_EXTENSIONS = new Set(['jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'bmp', 'heic', 'heif', 'cr2', 'nef', 'arw', 'dng'])
+// Folders often hold sidecar and system files; they are skipped without being reported.
+const IGNORED_NAMES = /^(\.|thumbs\.db$|desktop\.ini$)/i
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' })
+
+export interface CollectedFiles {
+  files: File[]
+  // Names of sources that could not be read (dead links, cross-origin blobs, locked files).
+  unreadable: string[]
+}
+
+/** `accept` for file inputs: pickers often don't count HEIC and RAW files as `image/*`. */
+export const IMPORT_ACCEPT = ['image/*', ...[...IMAGE_EXTENSIONS].map((extension) => `.${extension}`)].join(',')
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() ?? ''
+
+/** Images by MIME type, or by extension since HEIC and RAW files often come untyped or mistyped. */
+export const isImportableImage = (file: File) =>
+  file.type.startsWith('image/') || IMAGE_EXTENSIONS.has(getExtension(file.name))
+
+export const partitionImageFiles = (files: File[]) => {
+  const images: File[] = []
+  const others: File[] = []
+  files.forEach((file) => {
+    if (isImportableImage(file)) {
+      images.push(file)
+    } else if (!IGNORED_NAMES.test(file.name)) {
+      others.push(file)
+    }
+  })
+  return { images, others }
+}
+
+/** Snackbar text for what an import left out, naming the first few. */
+export const describeSkippedFiles = (names: string[]) => {
+  const listed = names.slice(0, 2).join(', ')
+  const more = names.length > 2 ? ` and ${names.length - 2} more` : ''
+  return `Skipped ${names.length} file${names.length === 1 ? '' : 's'} that couldn’t be imported: ${listed}${more}.`
+}
+
+// Folder contents come back in no particular order; sort by path so imports are repeatable.
+const sortByPath = (entries: { path: string; file: File }[]) =>
+  entries.sort((a, b) => naturalCollator.compare(a.path, b.path)).map(({ file }) => file)
+
+const readEntryFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+
+const readEntryBatch = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+
+// An entry that can't be read (no permission, moved mid-drop) is named in `unreadable`
+// rather than failing the whole drop; for a folder that means the folder's name.
+const readEntry = async (entry: FileSystemEntry, unreadable: string[]): Promise<{ path: string; file: File }[]> => {
+  try {
+    if (entry.isFile) {
+      return [{ path: entry.fullPath, file: await readEntryFile(entry as FileSystemFileEntry) }]
+    }
+    if (!entry.isDirectory) {
+      return []
+    }
+    // readEntries hands out at most ~100 entries per call; an empty batch means done.
+    const reader = (entry as FileSystemDirectoryEntry).createReader()
+    const children: FileSystemEntry[] = []
+    for (let batch = await readEntryBatch(reader); batch.length; batch = await readEntryBatch(reader)) {
+      children.push(...batch)
+    }
+    const nested = await Promise.all(children.map((child) => readEntry(child, unreadable)))
+    return nested.flat()
+  } catch (error) {
+    console.warn('Unable to read dropped entry', error)
+    unreadable.push(entry.name)
+    return []
+  }
+}
+
+const fileNameFromType = (type: string) => `dropped-image.${type.split('/')[1]?.replace('jpeg', 'jpg') ?? 'png'}`
+
+const fetchUrlFile = async (url: string) => {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Request failed with ${response.status}`)
+  }
+  const blob = await response.blob()
+  return new File([blob], fileNameFromType(blob.type), { type: blob.type, lastModified: Date.now() })
+}
+
+const parseUriList = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#') && /^(blob|data):/i.test(line))
+
+/**
+ * Reads images dragged out of another tab. Only blob and data URLs are read, so a drop
+ * never reaches out to a remote host; blob URLs from other origins usually fail.
+ */
+export const readUriList = async (text: string): Promise<CollectedFiles> => {
+  const urls = parseUriList(text)
+  const results = await Promise.allSettled(urls.map(fetchUrlFile))
+  const collected: CollectedFiles = { files: [], unreadable: [] }
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      collected.files.push(result.value)
+    } else {
+      console.warn('Unable to fetch dropped link', result.reason)
+      collected.unreadable.push(urls[index].slice(0, 60))
+    }
+  })
+  return collected
+}
+
+/**
+ * Reads a drop: files and whole folders (recursively), or, when nothing file-like was
+ * dropped, the links of images dragged out of another tab. The data transfer is only
+ * readable during the event, so everything is captured before the first await.
+ */
+export const collectDroppedFiles = async (transfer: DataTransfer): Promise<CollectedFiles> => {
+  const entries = Array.from(transfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry?.() ?? null)
+  const files = Array.from(transfer.files)
+  const uriList = transfer.getData('text/uri-list')
+
+  if (entries.length && entries.every((entry) => entry !== null)) {
+    const unreadable: string[] = []
+    const read = await Promise.all(entries.map((entry) => readEntry(entry as FileSystemEntry, unreadable)))
+    return { files: sortByPath(read.flat()), unreadable }
+  }
+  if (files.length) {
+    return { files, unreadable: [] }
+  }
+  return uriList ? readUriList(uriList) : { files: [], unreadable: [] }
+}
+
+/** Pasted image data (screenshots, copied images) or copied image links. */
+export const collectPastedFiles = async (clipboard: DataTransfer): Promise<CollectedFiles> => {
+  const files = Array.from(clipboard.files)
+  const uriList = clipboard.getData('text/uri-list')
+  if (files.length) {
+    return { files, unreadable: [] }
+  }
+  return uriList ? readUriList(uriList) : { files: [], unreadable: [] }
+}
+
+/** Files from an `<input webkitdirectory>`, in path order. */
+export const sortFolderFiles = (files: File[]) =>
+  sortByPath(files.map((file) => ({ path: file.webkitRelativePath || file.name, file })))
+
+// Chromium's directory picker; the DOM lib in use declares neither it nor handle iteration.
+type DirectoryHandle = FileSystemDirectoryHandle & {
+  values(): AsyncIterable<FileSystemDirectoryHandle | FileSystemFileHandle>
+}
+
+export const supportsDirectoryPicker = typeof window !== 'undefined' && 'showDirectoryPicker' in window
+
+const readDirectoryHandle = async (handle: DirectoryHandle, path: string): Promise<{ path: string; file: File }[]> => {
+  const found: { path: string; file: File }[] = []
+  for await (const child of handle.values()) {
+    const childPath = `${path}/${child.name}`
+    if (child.kind === 'file') {
+      found.push({ path: childPath, file: await child.getFile() })
+    } else {
+      found.push(...(await readDirectoryHandle(child as DirectoryHandle, childPath)))
+    }
+  }
+  return found
+}
+
+/** Asks for a folder and returns every file inside it; null when the user cancels. */
+export const pickDirectoryFiles = async () => {
+  const picker = window as unknown as { showDirectoryPicker: () => Promise<DirectoryHandle> }
+  try {
+    const handle = await picker.showDirectoryPicker()
+    return sortByPath(await readDirectoryHandle(handle, handle.name))
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return null
+    }
+    throw error
+  }
+}
@@ -0,0 +1,80 @@
+import type { LibHeif } from 'libheif-js/libheif-wasm/libheif-bundle.mjs'
+
+// HEIC/HEIF fallback for browsers without a native decoder (everything but Safari). libheif
+// is compiled to WebAssembly with the binary inlined in its bundle, so it works offline; the
+// chunk is only fetched the first time a HEIC file can't be decoded natively.
+
+const HEIC_EXTENSIONS = new Set(['heic', 'heif'])
+
+let libheifPromise: Promise<LibHeif> | null = null
+
+const loadLibheif = () => {
+  libheifPromise ??= import('libheif-js/libheif-wasm/libheif-bundle.mjs')
+    .then(({ default: createLibHeif }) => createLibHeif())
+    .catch((error: unknown) => {
+      // Let a later file try again, e.g. after a flaky chunk load.
+      libheifPromise = null
+      throw error
+    })
+  return libheifPromise
+}
+
+export const isHeicFile = (file: File) =>
+  /^image\/hei[cf]/.test(file.type) || HEIC_EXTENSIONS.has(file.name.split('.').pop()?.toLowerCase() ?? '')
+
+// The primary image as upright RGBA pixels; libheif applies the container's rotation and
+// mirroring itself. Works on either thread, as it only needs `ImageData`.
+const decodeHeicPixels = async (file: File) => {
+  const libheif = await loadLibheif()
+  const images = new libheif.HeifDecoder().decode(new Uint8Array(await file.arrayBuffer()))
+  try {
+    const primary = images.find((image) => image.is_primary()) ?? images[0]
+    if (!primary) {
+      throw new Error(`Unable to decode ${file.name}`)
+    }
+
+    const width = primary.get_width()
+    const height = primary.get_height()
+    return await new Promise<ImageData>((resolve, reject) => {
+      primary.display(new ImageData(width, height), (result) =>
+        result ? resolve(result) : reject(new Error(`Unable to decode ${file.name}`)),
+      )
+    })
+  } finally {
+    images.forEach((image) => image.free())
+  }
+}
+
+/** Decodes a HEIC file into a full-size bitmap; the image worker uses this off the main thread. */
+export const decodeHeicBitmap = async (file: File) => createImageBitmap(await decodeHeicPixels(file))
+
+/**
+ * Main-thread fallback for browsers without OffscreenCanvas workers: decodes the primary
+ * image of a HEIC file and scales it to `maxWidth`.
+ */
+export const decodeHeic = async (file: File, maxWidth: number) => {
+  const pixels = await decodeHeicPixels(file)
+  const { width, height } = pixels
+
+  const full = document.createElement('canvas')
+  full.width = width
+  full.height = height
+  full.getContext('2d')?.putImageData(pixels, 0, 0)
+  const scale = Math.min(1, maxWidth / width)
+  if (scale === 1) {
+    return { image: full, width, height }
+  }
+
+  const scaled = document.createElement('canvas')
+  scaled.width = Math.round(width * scale)
+  scaled.height = Math.round(height * scale)
+  const context = scaled.getContext('2d')
+  if (context) {
+    context.imageSmoothingQuality = 'high'
+    context.drawImage(full, 0, 0, scaled.width, scaled.height)
+  }
+  // Free the full-size backing store right away rather than waiting for GC.
+  full.width = 0
+  full.height = 0
+  return { image: scaled, width: scaled.width, height: scaled.height }
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react'
+
+const HISTORY_LIMIT = 100
+
+interface HistoryState<T> {
+  past: T[]
+  present: T
+  future: T[]
+  // Key of the step that produced `present`; later changes with the same key merge into it.
+  group: string | null
+  // Key announced by `coalesce` for the next change.
+  pendingKey: string | null
+  // Set by `clear`: the next change becomes the new starting point rather than a step.
+  baseline: boolean
+}
+
+interface HistoryOptions<T> {
+  apply: (snapshot: T) => void
+  isEqual: (a: T, b: T) => boolean
+  // Snapshots holding something `present` no longer does (removed photos, say) are costly to
+  // keep. Only the `costlyLimit` nearest ones on each side survive; steps beyond them are dropped.
+  isCostly?: (snapshot: T, present: T) => boolean
+  costlyLimit?: number
+}
+
+/**
+ * Undo/redo over snapshots of state owned by the caller. Every change to `present` becomes a
+ * step unless it was announced with `coalesce(key)` and the previous step used the same key,
+ * which is how slider drags and typing collapse into one step until `endCoalesce()`.
+ */
+export function useHistory<T>(present: T, { apply, isEqual, isCostly, costlyLimit = HISTORY_LIMIT }: HistoryOptions<T>) {
+  // `steps` run nearest first; returns how many of them to keep.
+  const countKept = (steps: T[], current: T) => {
+    if (!isCostly) {
+      return steps.length
+    }
+    let costly = 0
+    for (let index = 0; index < steps.length; index += 1) {
+      if (isCostly(steps[index], current)) {
+        costly += 1
+        if (costly > costlyLimit) {
+          return index
+        }
+      }
+    }
+    return steps.length
+  }
+  const trimPast = (past: T[], current: T) => past.slice(past.length - countKept([...past].reverse(), current))
+  const trimFuture = (future: T[], current: T) => future.slice(0, countKept(future, current))
+
+  const [state, setState] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present,
+    future: [],
+    group: null,
+    pendingKey: null,
+    baseline: false,
+  }))
+
+  // Recorded during render (React's "adjust state when a prop changes" pattern), so the
+  // history is never a commit behind what is on screen.
+  if (!isEqual(state.present, present)) {
+    const key = state.pendingKey
+    const merge = state.baseline || (key !== null && key === state.group)
+    setState({
+      past: trimPast(merge ? state.past : [...state.past, state.present].slice(-HISTORY_LIMIT), present),
+      present,
+      future: [],
+      group: key,
+      pendingKey: null,
+      baseline: false,
+    })
+  }
+
+  const undo = () => {
+    const target = state.past[state.past.length - 1]
+    if (target === undefined) {
+      return
+    }
+    setState({
+      past: trimPast(state.past.slice(0, -1), target),
+      present: target,
+      future: trimFuture([state.present, ...state.future], target),
+      group: null,
+      pendingKey: null,
+      baseline: false,
+    })
+    apply(target)
+  }
+
+  const redo = () => {
+    const [target, ...future] = state.future
+    if (target === undefined) {
+      return
+    }
+    setState({
+      past: trimPast([...state.past, state.present], target),
+      present: target,
+      future: trimFuture(future, target),
+      group: null,
+      pendingKey: null,
+      baseline: false,
+    })
+    apply(target)
+  }
+
+  const coalesce = (key: string) => {
+    setState((current) => (current.pendingKey === key ? current : { ...current, pendingKey: key }))
+  }
+
+  const endCoalesce = () => {
+    setState((current) =>
+      current.group === null && current.pendingKey === null ? current : { ...current, group: null, pendingKey: null },
+    )
+  }
+
+  const clear = () => {
+    setState((current) => ({ ...current, past: [], future: [], group: null, pendingKey: null, baseline: true }))
+  }
+
+  // Drops snapshots that can no longer be restored, e.g. once their bitmaps are released.
+  const forget = (predicate: (snapshot: T) => boolean) => {
+    setState((current) => ({
+      ...current,
+      past: current.past.filter((snapshot) => !predicate(snapshot)),
+      future: current.future.filter((snapshot) => !predicate(snapshot)),
+    }))
+  }
+
+  return {
+    past: state.past,
+    future: state.future,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    undo,
+    redo,
+    coalesce,
+    endCoalesce,
+    clear,
+    forget,
+  }
+}
@@ -0,0 +1,204 @@
+import type { TileShadow } from './collageStyle'
+import type { Point, TileDrawProps } from './photoEdits'
+import type { ResolvedAdjustments } from './photoFilters'
+
+export interface DecodedBitmap {
+  image: ImageBitmap
+  width: number
+  height: number
+}
+
+export type SceneFill =
+  | { type: 'color'; color: string }
+  | { type: 'gradient'; start: Point; end: Point; from: string; to: string }
+  // Stretched over the whole frame, like the blurred photo backdrop in the preview.
+  | { type: 'image'; bitmap: ImageBitmap }
+
+export interface SceneTile {
+  bitmap: ImageBitmap
+  draw: TileDrawProps
+  slot: { x: number; y: number; width: number; height: number }
+  cornerRadius: number
+  adjustments: ResolvedAdjustments | null
+}
+
+/** A tile as the main thread describes it, still pointing at the preview's image. */
+export type SourceTile = Omit<SceneTile, 'bitmap'> & { image: CanvasImageSource }
+
+/** Everything the export worker needs to paint the collage besides the tiles, in stage units. */
+export interface ExportScene {
+  width: number
+  height: number
+  frame: { fill: SceneFill; stroke: string; strokeWidth: number } | null
+  // Drawn under each tile's slot; the photo itself covers the shape that casts it.
+  shadow: TileShadow | null
+  // Text and other vector layers are rasterised on the main thread, where the fonts live.
+  overlays: { bitmap: ImageBitmap; x: number; y: number; width: number; height: number }[]
+}
+
+export interface ExportJob {
+  scene: ExportScene
+  // Maps stage units to output pixels; each entry of `scales` is tried in turn on top of it.
+  outputScale: number
+  scales: number[]
+  mimeType: string
+  quality: number
+}
+
+export type WorkerRequest =
+  | { id: number; type: 'decode'; file: File; maxWidth: number }
+  // Photo tiles arrive in batches ahead of the export job they belong to.
+  | { id: number; type: 'tiles'; tiles: SceneTile[] }
+  | { id: number; type: 'cancel' }
+  | { id: number; type: 'export'; job: ExportJob }
+
+export type WorkerResponse =
+  | { id: number; type: 'decoded'; bitmap: ImageBitmap; width: number; height: number }
+  | { id: number; type: 'exported'; blob: Blob; scale: number }
+  | { id: number; type: 'progress'; message: string }
+  | { id: number; type: 'error'; message: string }
+
+interface PendingJob {
+  worker: Worker
+  resolve: (response: WorkerResponse) => void
+  reject: (error: Error) => void
+  onProgress?: (message: string) => void
+}
+
+const MAX_WORKERS = 4
+// Photos cloned for the export worker per message; the main thread never holds more copies.
+const TILE_BATCH_SIZE = 8
+
+export const supportsWorkerImaging =
+  typeof window !== 'undefined' &&
+  'Worker' in window &&
+  'OffscreenCanvas' in window &&
+  'createImageBitmap' in window &&
+  typeof OffscreenCanvas.prototype.convertToBlob === 'function'
+
+let workers: Worker[] = []
+let nextJobId = 0
+const pendingJobs = new Map<number, PendingJob>()
+
+const failWorkerJobs = (worker: Worker, error: Error) => {
+  pendingJobs.forEach((job, id) => {
+    if (job.worker === worker) {
+      pendingJobs.delete(id)
+      job.reject(error)
+    }
+  })
+}
+
+const handleResponse = (event: MessageEvent<WorkerResponse>) => {
+  const response = event.data
+  const job = pendingJobs.get(response.id)
+  if (!job) {
+    return
+  }
+  if (response.type === 'progress') {
+    job.onProgress?.(response.message)
+    return
+  }
+  pendingJobs.delete(response.id)
+  if (response.type === 'error') {
+    job.reject(new Error(response.message))
+  } else {
+    job.resolve(response)
+  }
+}
+
+const getWorkers = () => {
+  if (!workers.length) {
+    const size = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1))
+    workers = Array.from({ length: size }, () => {
+      const worker = new Worker(new URL('./workers/imageWorker.ts', import.meta.url), { type: 'module' })
+      worker.addEventListener('message', handleResponse)
+      worker.addEventListener('error', (event) => {
+        // A crashed worker (usually out of memory) takes its jobs with it; start afresh next time.
+        failWorkerJobs(worker, new Error(event.message || 'Image worker crashed'))
+        worker.terminate()
+        workers = workers.filter((candidate) => candidate !== worker)
+      })
+      return worker
+    })
+  }
+  return workers
+}
+
+// Route each job to the worker with the fewest jobs in flight.
+const pickWorker = () => {
+  const pool = getWorkers()
+  const load = new Map(pool.map((worker) => [worker, 0]))
+  pendingJobs.forEach(({ worker }) => load.set(worker, (load.get(worker) ?? 0) + 1))
+  return pool.reduce((best, worker) => ((load.get(worker) ?? 0) < (load.get(best) ?? 0) ? worker : best))
+}
+
+const runJob = (
+  request: { type: 'decode'; file: File; maxWidth: number } | { type: 'export'; job: ExportJob },
+  onProgress?: (message: string) => void,
+  transfer: Transferable[] = [],
+  worker = pickWorker(),
+  id = (nextJobId += 1),
+) =>
+  new Promise<WorkerResponse>((resolve, reject) => {
+    pendingJobs.set(id, { worker, resolve, reject, onProgress })
+    worker.postMessage({ ...request, id } satisfies WorkerRequest, transfer)
+  })
+
+/** Decodes and downsizes a file off the main thread into a transferable bitmap. */
+export const decodeInWorker = async (file: File, maxWidth: number): Promise<DecodedBitmap> => {
+  const response = await runJob({ type: 'decode', file, maxWidth })
+  if (response.type !== 'decoded') {
+    throw new Error('Unexpected worker response')
+  }
+  return { image: response.bitmap, width: response.width, height: response.height }
+}
+
+// Each batch of photos is cloned into bitmaps the worker can own and handed over before the
+// next batch is cloned, so an export never needs a second copy of every photo at once.
+const sendSceneTiles = async (worker: Worker, id: number, tiles: SourceTile[]) => {
+  try {
+    for (let start = 0; start < tiles.length; start += TILE_BATCH_SIZE) {
+      const batch = await Promise.all(
+        tiles.slice(start, start + TILE_BATCH_SIZE).map(async ({ image, ...tile }) => ({
+          ...tile,
+          bitmap: await createImageBitmap(image),
+        })),
+      )
+      worker.postMessage(
+        { id, type: 'tiles', tiles: batch } satisfies WorkerRequest,
+        batch.map(({ bitmap }) => bitmap),
+      )
+    }
+  } catch (error) {
+    worker.postMessage({ id, type: 'cancel' } satisfies WorkerRequest)
+    throw error
+  }
+}
+
+/**
+ * Paints and encodes the collage on an OffscreenCanvas; the main thread only sees progress.
+ * The worker gets its own copies of the photos; overlays and the backdrop are handed over.
+ */
+export const exportInWorker = async (job: ExportJob, tiles: SourceTile[], onProgress?: (message: string) => void) => {
+  const transfer: ImageBitmap[] = job.scene.overlays.map(({ bitmap }) => bitmap)
+  if (job.scene.frame?.fill.type === 'image') {
+    transfer.push(job.scene.frame.fill.bitmap)
+  }
+  const worker = pickWorker()
+  const id = (nextJobId += 1)
+  try {
+    await sendSceneTiles(worker, id, tiles)
+    if (!workers.includes(worker)) {
+      throw new Error('Image worker crashed')
+    }
+  } catch (error) {
+    transfer.forEach((bitmap) => bitmap.close())
+    throw error
+  }
+  const response = await runJob({ type: 'export', job }, onProgress, transfer, worker, id)
+  if (response.type !== 'exported') {
+    throw new Error('Unexpected worker response')
+  }
+  return { blob: response.blob, scale: response.scale }
+}
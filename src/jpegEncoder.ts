@@ -0,0 +1,384 @@
+// Baseline (sequential, Huffman) JPEG encoder that accepts the image a strip at a time, so
+// exports never need the whole bitmap in memory. Chroma is kept at full resolution (4:4:4),
+// so every MCU is a single 8×8 block per component and strips only need to be 8 rows high.
+
+const BLOCK = 8
+const OUTPUT_CHUNK_BYTES = 1 << 20
+
+// Natural (row-major) index of each coefficient in zigzag order.
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55,
+  62, 63,
+]
+
+// Example tables from Annex K of the JPEG specification, in natural order.
+const LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87,
+  80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101, 72, 92,
+  95, 98, 112, 100, 103, 99,
+]
+const CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99,
+]
+
+const DC_LUMA_BITS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0]
+const DC_CHROMA_BITS = [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0]
+const DC_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+const AC_LUMA_BITS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d]
+const AC_LUMA_VALUES = [
+  0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14, 0x32,
+  0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16,
+  0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45,
+  0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+  0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89, 0x8a, 0x92, 0x93, 0x94,
+  0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6,
+  0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8,
+  0xd9, 0xda, 0xe1, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa,
+]
+const AC_CHROMA_BITS = [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77]
+const AC_CHROMA_VALUES = [
+  0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71, 0x13, 0x22, 0x32, 0x81,
+  0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34,
+  0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44,
+  0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+  0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89, 0x8a, 0x92,
+  0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4,
+  0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6,
+  0xd7, 0xd8, 0xd9, 0xda, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa,
+]
+
+// Row/column scale factors of the AAN DCT, folded into the quantisation divisors.
+const AAN_SCALE = [1, 1.387039845, 1.306562965, 1.175875602, 1, 0.785694958, 0.5411961, 0.275899379]
+
+export const MAX_JPEG_DIMENSION = 65_535
+
+interface HuffmanTable {
+  codes: Uint16Array
+  lengths: Uint8Array
+}
+
+const buildHuffmanTable = (bits: number[], values: number[]): HuffmanTable => {
+  const codes = new Uint16Array(256)
+  const lengths = new Uint8Array(256)
+  let code = 0
+  let index = 0
+  for (let length = 1; length <= 16; length += 1) {
+    for (let i = 0; i < bits[length - 1]; i += 1) {
+      codes[values[index]] = code
+      lengths[values[index]] = length
+      code += 1
+      index += 1
+    }
+    code <<= 1
+  }
+  return { codes, lengths }
+}
+
+const DC_LUMA = buildHuffmanTable(DC_LUMA_BITS, DC_VALUES)
+const DC_CHROMA = buildHuffmanTable(DC_CHROMA_BITS, DC_VALUES)
+const AC_LUMA = buildHuffmanTable(AC_LUMA_BITS, AC_LUMA_VALUES)
+const AC_CHROMA = buildHuffmanTable(AC_CHROMA_BITS, AC_CHROMA_VALUES)
+
+// IJG quality scaling, so 0.85 here is comparable to `canvas.toBlob(…, 'image/jpeg', 0.85)`.
+const scaleQuantTable = (base: number[], quality: number) => {
+  const q = Math.min(Math.max(Math.round(quality * 100), 1), 100)
+  const scale = q < 50 ? 5000 / q : 200 - q * 2
+  return base.map((value) => Math.min(Math.max(Math.floor((value * scale + 50) / 100), 1), 255))
+}
+
+const buildDivisors = (table: number[]) =>
+  Float64Array.from(table, (value, index) => 1 / (value * AAN_SCALE[index >> 3] * AAN_SCALE[index & 7] * 8))
+
+const bitLength = (value: number) => {
+  let magnitude = Math.abs(value)
+  let length = 0
+  while (magnitude) {
+    length += 1
+    magnitude >>= 1
+  }
+  return length
+}
+
+// In-place AAN forward DCT followed by quantisation into `output` (natural order).
+const forwardDctQuantize = (data: Float64Array, divisors: Float64Array, output: Int32Array) => {
+  for (let pass = 0; pass < 2; pass += 1) {
+    const step = pass === 0 ? 1 : BLOCK
+    const stride = pass === 0 ? BLOCK : 1
+    for (let line = 0; line < BLOCK; line += 1) {
+      const o = line * stride
+      const d0 = data[o]
+      const d1 = data[o + step]
+      const d2 = data[o + step * 2]
+      const d3 = data[o + step * 3]
+      const d4 = data[o + step * 4]
+      const d5 = data[o + step * 5]
+      const d6 = data[o + step * 6]
+      const d7 = data[o + step * 7]
+
+      const tmp0 = d0 + d7
+      const tmp7 = d0 - d7
+      const tmp1 = d1 + d6
+      const tmp6 = d1 - d6
+      const tmp2 = d2 + d5
+      const tmp5 = d2 - d5
+      const tmp3 = d3 + d4
+      const tmp4 = d3 - d4
+
+      const even0 = tmp0 + tmp3
+      const even3 = tmp0 - tmp3
+      const even1 = tmp1 + tmp2
+      const even2 = tmp1 - tmp2
+      data[o] = even0 + even1
+      data[o + step * 4] = even0 - even1
+      const z1 = (even2 + even3) * 0.707106781
+      data[o + step * 2] = even3 + z1
+      data[o + step * 6] = even3 - z1
+
+      const odd0 = tmp4 + tmp5
+      const odd1 = tmp5 + tmp6
+      const odd2 = tmp6 + tmp7
+      const z5 = (odd0 - odd2) * 0.382683433
+      const z2 = 0.5411961 * odd0 + z5
+      const z4 = 1.306562965 * odd2 + z5
+      const z3 = odd1 * 0.707106781
+      const z11 = tmp7 + z3
+      const z13 = tmp7 - z3
+      data[o + step * 5] = z13 + z2
+      data[o + step * 3] = z13 - z2
+      data[o + step] = z11 + z4
+      data[o + step * 7] = z11 - z4
+    }
+  }
+
+  for (let i = 0; i < 64; i += 1) {
+    output[i] = Math.round(data[i] * divisors[i])
+  }
+}
+
+class ByteSink {
+  private chunks: Uint8Array<ArrayBuffer>[] = []
+  private chunk = new Uint8Array(OUTPUT_CHUNK_BYTES)
+  private position = 0
+
+  writeByte(value: number) {
+    if (this.position === this.chunk.length) {
+      this.chunks.push(this.chunk)
+      this.chunk = new Uint8Array(OUTPUT_CHUNK_BYTES)
+      this.position = 0
+    }
+    this.chunk[this.position] = value
+    this.position += 1
+  }
+
+  writeWord(value: number) {
+    this.writeByte((value >> 8) & 0xff)
+    this.writeByte(value & 0xff)
+  }
+
+  writeBytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i += 1) {
+      this.writeByte(values[i])
+    }
+  }
+
+  toBlob(type: string) {
+    return new Blob([...this.chunks, this.chunk.slice(0, this.position)], { type })
+  }
+}
+
+export class StreamingJpegEncoder {
+  readonly width: number
+  readonly height: number
+  private rowsEncoded = 0
+  private readonly sink = new ByteSink()
+  private readonly lumaDivisors: Float64Array
+  private readonly chromaDivisors: Float64Array
+  private readonly block = new Float64Array(64)
+  private readonly coefficients = new Int32Array(64)
+  private readonly planes: Float64Array[]
+  private previousDc = [0, 0, 0]
+  private bitBuffer = 0
+  private bitCount = 0
+
+  constructor(width: number, height: number, quality: number) {
+    if (width < 1 || height < 1 || width > MAX_JPEG_DIMENSION || height > MAX_JPEG_DIMENSION) {
+      throw new RangeError(`JPEG cannot store a ${width} × ${height} image`)
+    }
+    this.width = width
+    this.height = height
+
+    const lumaTable = scaleQuantTable(LUMA_QUANT, quality)
+    const chromaTable = scaleQuantTable(CHROMA_QUANT, quality)
+    this.lumaDivisors = buildDivisors(lumaTable)
+    this.chromaDivisors = buildDivisors(chromaTable)
+
+    const paddedWidth = Math.ceil(width / BLOCK) * BLOCK
+    this.planes = [0, 1, 2].map(() => new Float64Array(paddedWidth * BLOCK))
+    this.writeHeaders(lumaTable, chromaTable)
+  }
+
+  /**
+   * Encodes the next `rows` rows of RGBA pixels (`width` pixels per row, alpha ignored).
+   * Every strip but the last must be a multiple of 8 rows high.
+   */
+  encodeRows(pixels: Uint8ClampedArray, rows: number) {
+    if (this.rowsEncoded + rows > this.height) {
+      throw new RangeError('More rows than the image height')
+    }
+    const isLast = this.rowsEncoded + rows === this.height
+    if (!isLast && rows % BLOCK !== 0) {
+      throw new RangeError('Strips must be a multiple of 8 rows high')
+    }
+
+    for (let top = 0; top < rows; top += BLOCK) {
+      this.encodeBlockRow(pixels, top, Math.min(BLOCK, rows - top))
+    }
+    this.rowsEncoded += rows
+  }
+
+  /** Flushes the entropy coder and returns the finished file. */
+  finish(): Blob {
+    if (this.rowsEncoded !== this.height) {
+      throw new Error(`Only ${this.rowsEncoded} of ${this.height} rows were encoded`)
+    }
+    if (this.bitCount > 0) {
+      this.writeBits((1 << (8 - this.bitCount)) - 1, 8 - this.bitCount)
+    }
+    this.sink.writeWord(0xffd9)
+    return this.sink.toBlob('image/jpeg')
+  }
+
+  private encodeBlockRow(pixels: Uint8ClampedArray, top: number, rows: number) {
+    const [lumaPlane, cbPlane, crPlane] = this.planes
+    const paddedWidth = lumaPlane.length / BLOCK
+
+    // Convert to level-shifted YCbCr, repeating the last row/column into the padding.
+    for (let y = 0; y < BLOCK; y += 1) {
+      const sourceRow = top + Math.min(y, rows - 1)
+      for (let x = 0; x < paddedWidth; x += 1) {
+        const source = (sourceRow * this.width + Math.min(x, this.width - 1)) * 4
+        const r = pixels[source]
+        const g = pixels[source + 1]
+        const b = pixels[source + 2]
+        const target = y * paddedWidth + x
+        lumaPlane[target] = 0.299 * r + 0.587 * g + 0.114 * b - 128
+        cbPlane[target] = -0.168736 * r - 0.331264 * g + 0.5 * b
+        crPlane[target] = 0.5 * r - 0.418688 * g - 0.081312 * b
+      }
+    }
+
+    for (let left = 0; left < paddedWidth; left += BLOCK) {
+      for (let component = 0; component < 3; component += 1) {
+        const plane = this.planes[component]
+        for (let y = 0; y < BLOCK; y += 1) {
+          for (let x = 0; x < BLOCK; x += 1) {
+            this.block[y * BLOCK + x] = plane[y * paddedWidth + left + x]
+          }
+        }
+        const isLuma = component === 0
+        forwardDctQuantize(this.block, isLuma ? this.lumaDivisors : this.chromaDivisors, this.coefficients)
+        this.encodeBlock(component, isLuma ? DC_LUMA : DC_CHROMA, isLuma ? AC_LUMA : AC_CHROMA)
+      }
+    }
+  }
+
+  private encodeBlock(component: number, dcTable: HuffmanTable, acTable: HuffmanTable) {
+    const dc = this.coefficients[0]
+    const diff = dc - this.previousDc[component]
+    this.previousDc[component] = dc
+    const dcSize = bitLength(diff)
+    this.writeBits(dcTable.codes[dcSize], dcTable.lengths[dcSize])
+    if (dcSize) {
+      this.writeValue(diff, dcSize)
+    }
+
+    let run = 0
+    for (let k = 1; k < 64; k += 1) {
+      const value = this.coefficients[ZIGZAG[k]]
+      if (value === 0) {
+        run += 1
+        continue
+      }
+      while (run > 15) {
+        this.writeBits(acTable.codes[0xf0], acTable.lengths[0xf0])
+        run -= 16
+      }
+      const size = bitLength(value)
+      const symbol = (run << 4) | size
+      this.writeBits(acTable.codes[symbol], acTable.lengths[symbol])
+      this.writeValue(value, size)
+      run = 0
+    }
+    if (run > 0) {
+      this.writeBits(acTable.codes[0x00], acTable.lengths[0x00])
+    }
+  }
+
+  // Negative values are stored as their one's complement in `size` bits.
+  private writeValue(value: number, size: number) {
+    this.writeBits(value < 0 ? value + (1 << size) - 1 : value, size)
+  }
+
+  private writeBits(code: number, length: number) {
+    this.bitBuffer = (this.bitBuffer << length) | code
+    this.bitCount += length
+    while (this.bitCount >= 8) {
+      const byte = (this.bitBuffer >> (this.bitCount - 8)) & 0xff
+      this.sink.writeByte(byte)
+      // 0xFF in entropy-coded data must be stuffed so it is not read as a marker.
+      if (byte === 0xff) {
+        this.sink.writeByte(0)
+      }
+      this.bitCount -= 8
+      this.bitBuffer &= (1 << this.bitCount) - 1
+    }
+  }
+
+  private writeHeaders(lumaTable: number[], chromaTable: number[]) {
+    const sink = this.sink
+    sink.writeWord(0xffd8)
+
+    // JFIF APP0, no thumbnail.
+    sink.writeWord(0xffe0)
+    sink.writeWord(16)
+    sink.writeBytes([0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0])
+
+    sink.writeWord(0xffdb)
+    sink.writeWord(2 + 65 * 2)
+    sink.writeByte(0)
+    sink.writeBytes(ZIGZAG.map((index) => lumaTable[index]))
+    sink.writeByte(1)
+    sink.writeBytes(ZIGZAG.map((index) => chromaTable[index]))
+
+    sink.writeWord(0xffc0)
+    sink.writeWord(17)
+    sink.writeByte(8)
+    sink.writeWord(this.height)
+    sink.writeWord(this.width)
+    sink.writeByte(3)
+    sink.writeBytes([1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1])
+
+    const huffmanTables: [number, number[], number[]][] = [
+      [0x00, DC_LUMA_BITS, DC_VALUES],
+      [0x10, AC_LUMA_BITS, AC_LUMA_VALUES],
+      [0x01, DC_CHROMA_BITS, DC_VALUES],
+      [0x11, AC_CHROMA_BITS, AC_CHROMA_VALUES],
+    ]
+    sink.writeWord(0xffc4)
+    sink.writeWord(2 + huffmanTables.reduce((sum, [, , values]) => sum + 17 + values.length, 0))
+    huffmanTables.forEach(([tableClass, bits, values]) => {
+      sink.writeByte(tableClass)
+      sink.writeBytes(bits)
+      sink.writeBytes(values)
+    })
+
+    sink.writeWord(0xffda)
+    sink.writeWord(12)
+    sink.writeBytes([3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0])
+  }
+}
@@ -1,9 +1,20 @@
-export type LayoutMode = 'masonry' | 'justified'
+export type LayoutMode = 'masonry' | 'justified' | 'grid'
 
 export interface BarePhoto {
   id: string
   width: number
   height: number
+  /** Featured photos span this many masonry columns (or justified row heights). Defaults to 1. */
+  span?: number
+  /** Normalised point (0–1) that crops keep in frame. Defaults to the centre. */
+  focus?: { x: number; y: number }
+}
+
+export interface CropRect {
+  x: number
+  y: number
+  width: number
+  height: number
 }
 
 export interface LayoutItem {
@@ -12,6 +23,10 @@ export interface LayoutItem {
   y: number
   width: number
   height: number
+  /** Region of the source photo (in its own pixels) to draw; omitted when the whole photo fits. */
+  crop?: CropRect
+  /** Strip at the bottom of the slot reserved for the photo's label; included in `height`. */
+  labelHeight?: number
 }
 
 export interface LayoutResult {
@@ -20,44 +35,157 @@ export interface LayoutResult {
   items: LayoutItem[]
 }
 
-interface MasonryOptions {
+interface LabelOptions {
+  /** Height of the label strip kept under every photo. Defaults to 0. */
+  labelHeight?: number
+}
+
+interface MasonryOptions extends LabelOptions {
   columns: number
   gutter: number
   width: number
 }
 
-interface JustifiedOptions {
+export type JustifiedBreaking = 'greedy' | 'optimal'
+
+interface JustifiedOptions extends LabelOptions {
   rowHeight: number
   gutter: number
   width: number
+  /** `greedy` closes rows as soon as they are full; `optimal` balances all rows at once. Defaults to greedy. */
+  breaking?: JustifiedBreaking
+}
+
+export interface FitOptions extends LabelOptions {
+  width: number
+  height: number
+  gutter: number
+}
+
+export interface FittedLayoutResult extends LayoutResult {
+  /** Column count the solver settled on (masonry and grid). */
+  columns?: number
+  /** Target row height the solver settled on (justified). */
+  rowHeight?: number
+}
+
+interface GridOptions extends LabelOptions {
+  columns: number
+  /** Cell width divided by cell height; 1 gives square tiles. */
+  cellAspect: number
+  gutter: number
+  width: number
 }
 
 const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
 
-export function computeMasonryLayout(photos: BarePhoto[], options: MasonryOptions): LayoutResult {
+const getSpan = (photo: BarePhoto) => Math.max(1, Math.floor(photo.span ?? 1))
+
+const getLabelHeight = (options: LabelOptions) => Math.max(0, options.labelHeight ?? 0)
+
+/** The part of a slot the photo itself fills, i.e. the slot without its label strip. */
+export function getPhotoSlot(item: LayoutItem): LayoutItem {
+  return item.labelHeight ? { ...item, height: item.height - item.labelHeight, labelHeight: 0 } : item
+}
+
+interface MasonryPacking {
+  items: LayoutItem[]
+  columnHeights: number[]
+}
+
+// Shortest-column packing that also handles photos spanning several columns. A spanning
+// photo sits on the tallest of the columns it covers; the shorter ones are levelled by
+// stretching their last photo (cropping it), so the packing never leaves holes. Columns that
+// can't be levelled that way rule the placement out, and a photo that fits nowhere at its
+// span is narrowed until it does (a single column always fits).
+function packMasonry(photos: BarePhoto[], options: MasonryOptions, heightScale = 1): MasonryPacking {
   const columns = Math.max(1, Math.floor(options.columns))
   const gutter = Math.max(0, options.gutter)
+  const labelHeight = getLabelHeight(options)
   const columnWidth = (options.width - gutter * (columns - 1)) / columns
   const columnHeights = Array.from({ length: columns }, () => 0)
+  const lastInColumn: (LayoutItem | null)[] = Array.from({ length: columns }, () => null)
+  const placedColumns = new Map<LayoutItem, number[]>()
+  const photoMap = new Map(photos.map((photo) => [photo.id, photo]))
   const items: LayoutItem[] = []
 
+  // The photos to stretch so the covered columns all reach `y`, or null when a column is
+  // empty or ends in a spanning photo that something else already sits under.
+  const findLevelling = (start: number, span: number, y: number) => {
+    const stretched = new Set<LayoutItem>()
+    for (let column = start; column < start + span; column += 1) {
+      if (columnHeights[column] >= y) {
+        continue
+      }
+      const last = lastInColumn[column]
+      if (!last || placedColumns.get(last)?.some((other) => lastInColumn[other] !== last)) {
+        return null
+      }
+      stretched.add(last)
+    }
+    return stretched
+  }
+
   photos.forEach((photo) => {
-    const targetColumn = columnHeights.indexOf(Math.min(...columnHeights))
-    const height = (photo.height / photo.width) * columnWidth
-    const x = targetColumn * (columnWidth + gutter)
-    const y = columnHeights[targetColumn]
+    let placement: { start: number; span: number; y: number; stretched: Set<LayoutItem> } | null = null
 
-    items.push({
+    for (let span = Math.min(getSpan(photo), columns); span >= 1 && !placement; span -= 1) {
+      let bestScore = Infinity
+      for (let start = 0; start + span <= columns; start += 1) {
+        const covered = columnHeights.slice(start, start + span)
+        const top = Math.max(...covered)
+        const slack = covered.reduce((sum, value) => sum + top - value, 0)
+        const stretched = top + slack < bestScore ? findLevelling(start, span, top) : null
+        if (stretched) {
+          bestScore = top + slack
+          placement = { start, span, y: top, stretched }
+        }
+      }
+    }
+    if (!placement) {
+      return
+    }
+
+    const { start, span, y, stretched } = placement
+    stretched.forEach((last) => {
+      const lastColumns = placedColumns.get(last) ?? []
+      last.height += y - columnHeights[lastColumns[0]]
+      lastColumns.forEach((column) => {
+        columnHeights[column] = y
+      })
+    })
+
+    const width = columnWidth * span + gutter * (span - 1)
+    const item: LayoutItem = {
       id: photo.id,
-      x,
+      x: start * (columnWidth + gutter),
       y,
-      width: columnWidth,
-      height,
-    })
+      width,
+      height: (photo.height / photo.width) * width * heightScale + labelHeight,
+      labelHeight,
+    }
+    items.push(item)
 
-    columnHeights[targetColumn] += height + gutter
+    const itemColumns = Array.from({ length: span }, (_value, index) => start + index)
+    placedColumns.set(item, itemColumns)
+    itemColumns.forEach((column) => {
+      columnHeights[column] = y + item.height + gutter
+      lastInColumn[column] = item
+    })
   })
 
+  return {
+    items: items.map((item) => {
+      const photo = photoMap.get(item.id)
+      return photo ? withCoverCrop(item, photo) : item
+    }),
+    columnHeights,
+  }
+}
+
+export function computeMasonryLayout(photos: BarePhoto[], options: MasonryOptions): LayoutResult {
+  const gutter = Math.max(0, options.gutter)
+  const { items, columnHeights } = packMasonry(photos, options)
   const height = Math.max(0, Math.max(...columnHeights) - gutter)
 
   return {
@@ -67,12 +195,182 @@ export function computeMasonryLayout(photos: BarePhoto[], options: MasonryOption
   }
 }
 
+// Largest region of the photo that matches `targetAspect` (width / height), centred on the
+// photo's focal point as far as the edges allow.
+export function computeCoverCrop(photo: BarePhoto, targetAspect: number): CropRect {
+  const sourceAspect = photo.width / photo.height
+  const focusX = photo.focus?.x ?? 0.5
+  const focusY = photo.focus?.y ?? 0.5
+
+  if (sourceAspect > targetAspect) {
+    const width = photo.height * targetAspect
+    const x = clamp(focusX * photo.width - width / 2, 0, photo.width - width)
+    return { x, y: 0, width, height: photo.height }
+  }
+
+  const height = photo.width / targetAspect
+  const y = clamp(focusY * photo.height - height / 2, 0, photo.height - height)
+  return { x: 0, y, width: photo.width, height }
+}
+
+// Adds a cover crop when the slot's aspect differs from the photo's; exact fits stay uncropped.
+const withCoverCrop = (item: LayoutItem, photo: BarePhoto): LayoutItem => {
+  const slot = getPhotoSlot(item)
+  const crop = computeCoverCrop(photo, slot.width / slot.height)
+  const isCropped = crop.width < photo.width - 0.5 || crop.height < photo.height - 0.5
+  return { ...item, crop: isCropped ? crop : undefined }
+}
+
+/** Share of the photo's area (0–1) that its layout slot cuts away. */
+export function getCropFraction(item: LayoutItem, photo: BarePhoto): number {
+  if (!item.crop) {
+    return 0
+  }
+  return Math.max(0, 1 - (item.crop.width * item.crop.height) / (photo.width * photo.height))
+}
+
+export function computeGridLayout(photos: BarePhoto[], options: GridOptions): LayoutResult {
+  const columns = Math.max(1, Math.floor(options.columns))
+  const gutter = Math.max(0, options.gutter)
+  const labelHeight = getLabelHeight(options)
+  const cellAspect = options.cellAspect > 0 ? options.cellAspect : 1
+  const cellWidth = (options.width - gutter * (columns - 1)) / columns
+  const cellHeight = cellWidth / cellAspect + labelHeight
+
+  const items = photos.map<LayoutItem>((photo, index) => {
+    const column = index % columns
+    const row = Math.floor(index / columns)
+
+    return {
+      id: photo.id,
+      x: column * (cellWidth + gutter),
+      y: row * (cellHeight + gutter),
+      width: cellWidth,
+      height: cellHeight,
+      crop: computeCoverCrop(photo, cellAspect),
+      labelHeight,
+    }
+  })
+
+  const rows = Math.ceil(photos.length / columns)
+  const height = Math.max(0, rows * (cellHeight + gutter) - gutter)
+
+  return {
+    width: options.width,
+    height,
+    items,
+  }
+}
+
+// Rows shorter than this fraction of the target are never worth considering, which keeps
+// the search linear in practice: a row can only grow until it gets this flat.
+const MIN_OPTIMAL_ROW_RATIO = 0.4
+
+// Knuth–Plass style partitioning: pick the row breaks that minimise the summed squared
+// deviation from the target row height. Returns the exclusive end index of every row.
+function partitionRows(
+  aspects: number[],
+  spans: number[],
+  width: number,
+  gutter: number,
+  targetHeight: number,
+): number[] {
+  const count = aspects.length
+  const cost = new Float64Array(count + 1).fill(Infinity)
+  const rowStart = new Int32Array(count + 1)
+  cost[0] = 0
+
+  for (let end = 1; end <= count; end += 1) {
+    let aspectSum = 0
+    let rowSpan = 1
+    for (let start = end - 1; start >= 0; start -= 1) {
+      aspectSum += aspects[start]
+      rowSpan = Math.max(rowSpan, spans[start])
+      const rowHeight = (width - gutter * (end - start - 1)) / aspectSum
+      if (rowHeight <= 0) {
+        break
+      }
+
+      // Rows holding a featured photo aim for a multiple of the normal height.
+      const rowTarget = targetHeight * rowSpan
+      const deviation = (rowHeight - rowTarget) / rowTarget
+      const candidate = cost[start] + deviation * deviation
+      if (candidate < cost[end]) {
+        cost[end] = candidate
+        rowStart[end] = start
+      }
+
+      if (rowHeight < targetHeight * MIN_OPTIMAL_ROW_RATIO) {
+        break
+      }
+    }
+  }
+
+  const breaks: number[] = []
+  for (let end = count; end > 0; end = rowStart[end]) {
+    breaks.unshift(end)
+  }
+  return breaks
+}
+
+// Lays out full-width rows; `heightScale` stretches every row (cropping its photos) when a
+// fixed canvas height has to be met exactly.
+function placeRows(
+  photos: BarePhoto[],
+  breaks: number[],
+  width: number,
+  gutter: number,
+  heightScale = 1,
+  labelHeight = 0,
+): LayoutResult {
+  const items: LayoutItem[] = []
+  let cursorY = 0
+  let start = 0
+
+  breaks.forEach((end) => {
+    const row = photos.slice(start, end)
+    const aspectSum = row.reduce((sum, photo) => sum + photo.width / photo.height, 0)
+    const naturalHeight = (width - gutter * (row.length - 1)) / aspectSum
+    const rowHeight = naturalHeight * heightScale
+    let cursorX = 0
+
+    row.forEach((photo) => {
+      const itemWidth = naturalHeight * (photo.width / photo.height)
+      const item = { id: photo.id, x: cursorX, y: cursorY, width: itemWidth, height: rowHeight + labelHeight, labelHeight }
+      items.push(withCoverCrop(item, photo))
+      cursorX += itemWidth + gutter
+    })
+
+    cursorY += rowHeight + labelHeight + gutter
+    start = end
+  })
+
+  return {
+    width,
+    height: Math.max(0, cursorY - gutter),
+    items,
+  }
+}
+
+function computeOptimalJustifiedLayout(photos: BarePhoto[], options: JustifiedOptions): LayoutResult {
+  const gutter = Math.max(0, options.gutter)
+  const aspects = photos.map((photo) => photo.width / photo.height)
+  const breaks = partitionRows(aspects, photos.map(getSpan), options.width, gutter, options.rowHeight)
+  return placeRows(photos, breaks, options.width, gutter, 1, getLabelHeight(options))
+}
+
 export function computeJustifiedLayout(photos: BarePhoto[], options: JustifiedOptions): LayoutResult {
+  if (options.breaking === 'optimal' && photos.length) {
+    return computeOptimalJustifiedLayout(photos, options)
+  }
+
   const targetWidth = options.width
   const gutter = Math.max(0, options.gutter)
+  const labelHeight = getLabelHeight(options)
   const rows: LayoutItem[][] = []
   let currentRow: BarePhoto[] = []
   let rowAspectSum = 0
+  let rowSpan = 1
   let cursorY = 0
 
   const flushRow = (isLastRow: boolean) => {
@@ -80,12 +378,13 @@ export function computeJustifiedLayout(photos: BarePhoto[], options: JustifiedOp
       return
     }
 
-    const minHeight = options.rowHeight * 0.75
-    const maxHeight = options.rowHeight * 1.25
+    const rowTarget = options.rowHeight * rowSpan
+    const minHeight = rowTarget * 0.75
+    const maxHeight = rowTarget * 1.25
     const availableWidth = targetWidth - gutter * (currentRow.length - 1)
     const idealHeight = availableWidth / rowAspectSum
     const rowHeight = isLastRow
-      ? Math.min(options.rowHeight, idealHeight)
+      ? Math.min(rowTarget, idealHeight)
       : clamp(idealHeight, minHeight, maxHeight)
 
     let cursorX = 0
@@ -97,7 +396,8 @@ export function computeJustifiedLayout(photos: BarePhoto[], options: JustifiedOp
         x: cursorX,
         y: cursorY,
         width,
-        height: rowHeight,
+        height: rowHeight + labelHeight,
+        labelHeight,
       }
 
       cursorX += width + (index < currentRow.length - 1 ? gutter : 0)
@@ -105,15 +405,17 @@ export function computeJustifiedLayout(photos: BarePhoto[], options: JustifiedOp
     })
 
     rows.push(placedRow)
-    cursorY += rowHeight + gutter
+    cursorY += rowHeight + labelHeight + gutter
     currentRow = []
     rowAspectSum = 0
+    rowSpan = 1
   }
 
   photos.forEach((photo, index) => {
     currentRow.push(photo)
     rowAspectSum += photo.width / photo.height
-    const virtualRowWidth = options.rowHeight * rowAspectSum + gutter * (currentRow.length - 1)
+    rowSpan = Math.max(rowSpan, getSpan(photo))
+    const virtualRowWidth = options.rowHeight * rowSpan * rowAspectSum + gutter * (currentRow.length - 1)
     const isLastPhoto = index === photos.length - 1
 
     if (virtualRowWidth >= targetWidth || isLastPhoto) {
@@ -130,3 +432,232 @@ export function computeJustifiedLayout(photos: BarePhoto[], options: JustifiedOp
     items,
   }
 }
+
+export function findDropIndex(items: LayoutItem[], point: { x: number; y: number }): number {
+  if (!items.length) {
+    return -1
+  }
+
+  const hitIndex = items.findIndex(
+    (item) =>
+      point.x >= item.x &&
+      point.x <= item.x + item.width &&
+      point.y >= item.y &&
+      point.y <= item.y + item.height,
+  )
+
+  if (hitIndex !== -1) {
+    return hitIndex
+  }
+
+  // Pointer is over a gutter or outside the collage: snap to the closest tile center.
+  let closestIndex = 0
+  let closestDistance = Infinity
+
+  items.forEach((item, index) => {
+    const dx = point.x - (item.x + item.width / 2)
+    const dy = point.y - (item.y + item.height / 2)
+    const distance = dx * dx + dy * dy
+    if (distance < closestDistance) {
+      closestDistance = distance
+      closestIndex = index
+    }
+  })
+
+  return closestIndex
+}
+
+const MAX_FIT_COLUMNS = 10
+const MIN_FIT_ROW_HEIGHT = 60
+
+// Tries every column count and stretches each column to the exact canvas height, keeping the
+// count whose columns need the least stretching (and therefore the least cropping).
+export function fitMasonryLayout(photos: BarePhoto[], options: FitOptions): FittedLayoutResult {
+  if (photos.some((photo) => (photo.span ?? 1) > 1)) {
+    return fitSpanningMasonryLayout(photos, options)
+  }
+
+  const gutter = Math.max(0, options.gutter)
+  const labelHeight = getLabelHeight(options)
+  const photoMap = new Map(photos.map((photo) => [photo.id, photo]))
+  const maxColumns = Math.max(1, Math.min(MAX_FIT_COLUMNS, photos.length))
+  let best: { columns: number; distortion: number; groups: LayoutItem[][] } | null = null
+  // Only the photos stretch; gutters and label strips keep their size.
+  const getAvailable = (group: LayoutItem[]) => options.height - (gutter + labelHeight) * group.length + gutter
+  const getNaturalHeight = (group: LayoutItem[]) => group.reduce((sum, item) => sum + item.height - labelHeight, 0)
+
+  for (let columns = 1; columns <= maxColumns; columns += 1) {
+    const natural = computeMasonryLayout(photos, { columns, gutter, width: options.width, labelHeight })
+    const groups = new Map<number, LayoutItem[]>()
+    natural.items.forEach((item) => {
+      groups.set(item.x, [...(groups.get(item.x) ?? []), item])
+    })
+
+    let distortion = 0
+    groups.forEach((group) => {
+      distortion += group.length * Math.abs(Math.log(Math.max(getAvailable(group), 1) / getNaturalHeight(group)))
+    })
+
+    if (!best || distortion < best.distortion) {
+      best = { columns, distortion, groups: [...groups.values()] }
+    }
+  }
+
+  const items: LayoutItem[] = []
+  best?.groups.forEach((group) => {
+    const scale = Math.max(1, getAvailable(group)) / getNaturalHeight(group)
+    let cursorY = 0
+    group.forEach((item) => {
+      const height = (item.height - labelHeight) * scale + labelHeight
+      const photo = photoMap.get(item.id)
+      const placed = { ...item, y: cursorY, height }
+      items.push(photo ? withCoverCrop(placed, photo) : placed)
+      cursorY += height + gutter
+    })
+  })
+
+  // Keep items in photo order so indices still line up with the source array.
+  const order = new Map(photos.map((photo, index) => [photo.id, index]))
+  items.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0))
+
+  return { width: options.width, height: options.height, items, columns: best?.columns }
+}
+
+// Spanning photos tie columns together, so columns can't be stretched independently.
+// Instead every photo is scaled by one factor until the tallest column reaches the canvas
+// height, then each column's last photo is stretched to close the remaining gap.
+function fitSpanningMasonryLayout(photos: BarePhoto[], options: FitOptions): FittedLayoutResult {
+  const gutter = Math.max(0, options.gutter)
+  const photoMap = new Map(photos.map((photo) => [photo.id, photo]))
+  const maxColumns = Math.max(1, Math.min(MAX_FIT_COLUMNS, photos.length))
+  let best: { columns: number; distortion: number; items: LayoutItem[] } | null = null
+
+  for (let columns = 1; columns <= maxColumns; columns += 1) {
+    const masonryOptions = { columns, gutter, width: options.width, labelHeight: options.labelHeight }
+    const bottom = (scale: number) => Math.max(...packMasonry(photos, masonryOptions, scale).columnHeights) - gutter
+
+    let low = 0.05
+    let high = 20
+    for (let step = 0; step < 32; step += 1) {
+      const middle = Math.sqrt(low * high)
+      if (bottom(middle) > options.height) {
+        high = middle
+      } else {
+        low = middle
+      }
+    }
+
+    const scale = low
+    const { items } = packMasonry(photos, masonryOptions, scale)
+    let distortion = Math.abs(Math.log(scale)) * items.length
+    const stretched = items.map((item) => ({ ...item }))
+
+    // The photo with the lowest bottom edge in a column is the one to extend.
+    stretched.forEach((item) => {
+      const below = stretched.some(
+        (other) => other !== item && other.y > item.y && other.x < item.x + item.width && other.x + other.width > item.x,
+      )
+      if (below) {
+        return
+      }
+      const extra = options.height - (item.y + item.height)
+      if (extra > 0) {
+        distortion += Math.abs(Math.log((item.height + extra) / item.height))
+        item.height += extra
+      }
+    })
+
+    if (!best || distortion < best.distortion) {
+      best = {
+        columns,
+        distortion,
+        items: stretched.map((item) => {
+          const photo = photoMap.get(item.id)
+          return photo ? withCoverCrop(item, photo) : item
+        }),
+      }
+    }
+  }
+
+  return { width: options.width, height: options.height, items: best?.items ?? [], columns: best?.columns }
+}
+
+// Tries one target row height per possible row count, partitions optimally for each and
+// scales the winning rows to the exact canvas height.
+export function fitJustifiedLayout(photos: BarePhoto[], options: FitOptions): FittedLayoutResult {
+  const gutter = Math.max(0, options.gutter)
+  const labelHeight = getLabelHeight(options)
+  const aspects = photos.map((photo) => photo.width / photo.height)
+  const spans = photos.map(getSpan)
+  let best: { breaks: number[]; scale: number; rowHeight: number } | null = null
+
+  for (let rows = 1; rows <= photos.length; rows += 1) {
+    const targetHeight = (options.height - gutter * (rows - 1)) / rows - labelHeight
+    if (targetHeight < MIN_FIT_ROW_HEIGHT) {
+      break
+    }
+
+    const breaks = partitionRows(aspects, spans, options.width, gutter, targetHeight)
+    let naturalHeight = 0
+    let start = 0
+    breaks.forEach((end) => {
+      const aspectSum = aspects.slice(start, end).reduce((sum, aspect) => sum + aspect, 0)
+      naturalHeight += (options.width - gutter * (end - start - 1)) / aspectSum
+      start = end
+    })
+
+    const available = options.height - gutter * (breaks.length - 1) - labelHeight * breaks.length
+    if (available <= 0) {
+      continue
+    }
+    const scale = available / naturalHeight
+    if (!best || Math.abs(Math.log(scale)) < Math.abs(Math.log(best.scale))) {
+      best = { breaks, scale, rowHeight: targetHeight }
+    }
+  }
+
+  if (!best) {
+    return { ...computeOptimalJustifiedLayout(photos, { ...options, rowHeight: options.height }), rowHeight: options.height }
+  }
+
+  const placed = placeRows(photos, best.breaks, options.width, gutter, best.scale, labelHeight)
+  return { ...placed, height: options.height, rowHeight: best.rowHeight }
+}
+
+// Picks the column count whose cell shape best matches the photos while leaving few empty cells.
+export function fitGridLayout(photos: BarePhoto[], options: FitOptions): FittedLayoutResult {
+  const gutter = Math.max(0, options.gutter)
+  const labelHeight = getLabelHeight(options)
+  const count = Math.max(1, photos.length)
+  const logAspects = photos.map((photo) => Math.log(photo.width / photo.height))
+  let best: { columns: number; cellAspect: number; score: number } | null = null
+
+  for (let columns = 1; columns <= count; columns += 1) {
+    const rows = Math.ceil(count / columns)
+    const cellWidth = (options.width - gutter * (columns - 1)) / columns
+    const cellHeight = (options.height - gutter * (rows - 1)) / rows - labelHeight
+    if (cellWidth <= 0 || cellHeight <= 0) {
+      continue
+    }
+
+    const cellAspect = cellWidth / cellHeight
+    const logCell = Math.log(cellAspect)
+    const mismatch = logAspects.reduce((sum, value) => sum + Math.abs(value - logCell), 0) / count
+    const emptyShare = (rows * columns - count) / (rows * columns)
+    const score = mismatch + emptyShare
+
+    if (!best || score < best.score) {
+      best = { columns, cellAspect, score }
+    }
+  }
+
+  const columns = best?.columns ?? 1
+  const grid = computeGridLayout(photos, {
+    columns,
+    cellAspect: best?.cellAspect ?? 1,
+    gutter,
+    width: options.width,
+    labelHeight,
+  })
+  return { ...grid, height: options.height, columns }
+}
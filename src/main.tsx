@@ -2,6 +2,9 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import { CssBaseline, GlobalStyles, ThemeProvider, createTheme } from '@mui/material'
 import '@fontsource-variable/space-grotesk'
+import '@fontsource-variable/inter'
+import '@fontsource-variable/playfair-display'
+import '@fontsource-variable/caveat'
 import './index.css'
 import App from './App.tsx'
 
@@ -0,0 +1,175 @@
+import type { CropRect, LayoutItem } from './layouts'
+import { isNeutralAdjustments, neutralAdjustments } from './photoFilters'
+import type { PhotoAdjustments } from './photoFilters'
+
+export type QuarterTurn = 0 | 90 | 180 | 270
+
+export interface Point {
+  x: number
+  y: number
+}
+
+/**
+ * Non-destructive per-photo edits. `crop` and `focus` are normalised (0–1) against the
+ * decoded source, before rotation, so rotating or flipping never invalidates them.
+ */
+export interface PhotoEdits {
+  crop: CropRect | null
+  rotation: QuarterTurn
+  flipped: boolean
+  focus: Point | null
+  // Colour adjustments on top of the collage-wide ones.
+  adjustments: PhotoAdjustments
+}
+
+interface SourceSize {
+  width: number
+  height: number
+}
+
+export interface TileDrawProps {
+  x: number
+  y: number
+  width: number
+  height: number
+  offsetX: number
+  offsetY: number
+  rotation: number
+  scaleX: number
+  scaleY: number
+  crop?: CropRect
+}
+
+export const defaultPhotoEdits: PhotoEdits = {
+  crop: null,
+  rotation: 0,
+  flipped: false,
+  focus: null,
+  adjustments: neutralAdjustments,
+}
+
+const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 }
+
+export const hasPhotoEdits = (edits: PhotoEdits) =>
+  Boolean(edits.crop || edits.rotation || edits.flipped || edits.focus || !isNeutralAdjustments(edits.adjustments))
+
+export const rotateQuarter = (rotation: QuarterTurn, direction: 1 | -1): QuarterTurn =>
+  (((rotation + direction * 90) % 360) + 360) % 360 as QuarterTurn
+
+const swapsAxes = (rotation: QuarterTurn) => rotation === 90 || rotation === 270
+
+// Unit-square mapping from source to displayed space: rotate clockwise, then mirror.
+export const toDisplayedPoint = (point: Point, edits: PhotoEdits): Point => {
+  let x = point.x
+  let y = point.y
+  switch (edits.rotation) {
+    case 90:
+      ;[x, y] = [1 - point.y, point.x]
+      break
+    case 180:
+      ;[x, y] = [1 - point.x, 1 - point.y]
+      break
+    case 270:
+      ;[x, y] = [point.y, 1 - point.x]
+      break
+    default:
+      break
+  }
+  return { x: edits.flipped ? 1 - x : x, y }
+}
+
+export const toSourcePoint = (point: Point, edits: PhotoEdits): Point => {
+  const x = edits.flipped ? 1 - point.x : point.x
+  const y = point.y
+  switch (edits.rotation) {
+    case 90:
+      return { x: y, y: 1 - x }
+    case 180:
+      return { x: 1 - x, y: 1 - y }
+    case 270:
+      return { x: 1 - y, y: x }
+    default:
+      return { x, y }
+  }
+}
+
+const mapRect = (rect: CropRect, mapPoint: (point: Point) => Point): CropRect => {
+  const a = mapPoint({ x: rect.x, y: rect.y })
+  const b = mapPoint({ x: rect.x + rect.width, y: rect.y + rect.height })
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  }
+}
+
+export const toDisplayedRect = (rect: CropRect, edits: PhotoEdits) =>
+  mapRect(rect, (point) => toDisplayedPoint(point, edits))
+
+export const toSourceRect = (rect: CropRect, edits: PhotoEdits) =>
+  mapRect(rect, (point) => toSourcePoint(point, edits))
+
+/** Pixel size of the photo as the layout sees it: user crop applied, then rotated. */
+export const getEditedSize = (source: SourceSize, edits: PhotoEdits): SourceSize => {
+  const crop = edits.crop ?? FULL_FRAME
+  const width = source.width * crop.width
+  const height = source.height * crop.height
+  return swapsAxes(edits.rotation) ? { width: height, height: width } : { width, height }
+}
+
+/** Focal point in the edited photo's own normalised space, for layouts that have to crop. */
+export const getEditedFocus = (edits: PhotoEdits): Point | undefined => {
+  if (!edits.focus) {
+    return undefined
+  }
+  const crop = edits.crop ?? FULL_FRAME
+  const local = {
+    x: Math.min(Math.max((edits.focus.x - crop.x) / crop.width, 0), 1),
+    y: Math.min(Math.max((edits.focus.y - crop.y) / crop.height, 0), 1),
+  }
+  return toDisplayedPoint(local, edits)
+}
+
+/**
+ * Konva props that draw a layout slot from the untouched source. The slot's crop (in edited
+ * pixels) is mapped back through the edits; rotation and mirroring happen around the tile
+ * centre, and since Konva scales before rotating, a mirror on a quarter-turned tile is
+ * expressed as a vertical flip.
+ */
+export const resolveTileDraw = (item: LayoutItem, source: SourceSize, edits: PhotoEdits): TileDrawProps => {
+  const edited = getEditedSize(source, edits)
+  const slotCrop = item.crop ?? { x: 0, y: 0, width: edited.width, height: edited.height }
+  const normalizedSlot = {
+    x: slotCrop.x / edited.width,
+    y: slotCrop.y / edited.height,
+    width: slotCrop.width / edited.width,
+    height: slotCrop.height / edited.height,
+  }
+  const userCrop = edits.crop ?? FULL_FRAME
+  const local = toSourceRect(normalizedSlot, edits)
+  const sourceCrop = {
+    x: (userCrop.x + local.x * userCrop.width) * source.width,
+    y: (userCrop.y + local.y * userCrop.height) * source.height,
+    width: local.width * userCrop.width * source.width,
+    height: local.height * userCrop.height * source.height,
+  }
+  const isFullSource = sourceCrop.width >= source.width - 0.5 && sourceCrop.height >= source.height - 0.5
+
+  const rotated = swapsAxes(edits.rotation)
+  const width = rotated ? item.height : item.width
+  const height = rotated ? item.width : item.height
+
+  return {
+    x: item.x + item.width / 2,
+    y: item.y + item.height / 2,
+    width,
+    height,
+    offsetX: width / 2,
+    offsetY: height / 2,
+    rotation: edits.rotation,
+    scaleX: edits.flipped && !rotated ? -1 : 1,
+    scaleY: edits.flipped && rotated ? -1 : 1,
+    crop: isFullSource ? undefined : sourceCrop,
+  }
+}
@@ -0,0 +1,155 @@
+import type { FilterFunction } from 'konva/lib/Node'
+
+// Colour adjustments for photos, applied to pixels in a single pass. The same function runs
+// as a Konva filter on cached tiles (preview and stage exports) and in the export worker.
+
+export type PhotoLook = 'none' | 'vivid' | 'warm' | 'cool' | 'fade' | 'mono' | 'noir' | 'vintage'
+
+export interface PhotoAdjustments {
+  look: PhotoLook
+  // -100 to 100; 0 leaves the photo alone.
+  brightness: number
+  contrast: number
+  saturation: number
+  warmth: number
+  // 0 to 100: how far to blend towards the effect.
+  grayscale: number
+  sepia: number
+}
+
+type AdjustmentKey = Exclude<keyof PhotoAdjustments, 'look'>
+
+/** A look and any number of slider layers folded into one set of amounts. */
+export type ResolvedAdjustments = Record<AdjustmentKey, number>
+
+export const neutralAdjustments: PhotoAdjustments = {
+  look: 'none',
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  warmth: 0,
+  grayscale: 0,
+  sepia: 0,
+}
+
+export const adjustmentLimits: Record<AdjustmentKey, { min: number; max: number; label: string }> = {
+  brightness: { min: -100, max: 100, label: 'Brightness' },
+  contrast: { min: -100, max: 100, label: 'Contrast' },
+  saturation: { min: -100, max: 100, label: 'Saturation' },
+  warmth: { min: -100, max: 100, label: 'Warmth' },
+  grayscale: { min: 0, max: 100, label: 'Grayscale' },
+  sepia: { min: 0, max: 100, label: 'Sepia' },
+}
+
+export const photoLooks: Record<PhotoLook, { label: string; amounts: Partial<ResolvedAdjustments> }> = {
+  none: { label: 'Original', amounts: {} },
+  vivid: { label: 'Vivid', amounts: { contrast: 15, saturation: 35 } },
+  warm: { label: 'Warm', amounts: { warmth: 35, saturation: 10 } },
+  cool: { label: 'Cool', amounts: { warmth: -35, brightness: 4 } },
+  fade: { label: 'Fade', amounts: { contrast: -25, brightness: 8, saturation: -20 } },
+  mono: { label: 'Mono', amounts: { grayscale: 100 } },
+  noir: { label: 'Noir', amounts: { grayscale: 100, contrast: 40, brightness: -8 } },
+  vintage: { label: 'Vintage', amounts: { sepia: 45, contrast: -10, saturation: -15, warmth: 15 } },
+}
+
+const ADJUSTMENT_KEYS = Object.keys(adjustmentLimits) as AdjustmentKey[]
+
+const clampAmount = (key: AdjustmentKey, value: number) =>
+  Math.min(Math.max(value, adjustmentLimits[key].min), adjustmentLimits[key].max)
+
+export const sanitizeAdjustments = (raw: unknown): PhotoAdjustments => {
+  if (typeof raw !== 'object' || raw === null) {
+    return neutralAdjustments
+  }
+  const value = raw as Record<string, unknown>
+  const adjustments = { ...neutralAdjustments }
+  if (typeof value.look === 'string' && Object.hasOwn(photoLooks, value.look)) {
+    adjustments.look = value.look as PhotoLook
+  }
+  ADJUSTMENT_KEYS.forEach((key) => {
+    const number = value[key]
+    if (typeof number === 'number' && Number.isFinite(number)) {
+      adjustments[key] = clampAmount(key, Math.round(number))
+    }
+  })
+  return adjustments
+}
+
+export const isNeutralAdjustments = (adjustments: PhotoAdjustments) =>
+  adjustments.look === 'none' && ADJUSTMENT_KEYS.every((key) => adjustments[key] === 0)
+
+/**
+ * Adds up the layers (e.g. the collage-wide adjustments, then the photo's own) including
+ * their looks. Returns null when the result changes nothing, so callers can skip filtering.
+ */
+export const resolveAdjustments = (...layers: PhotoAdjustments[]): ResolvedAdjustments | null => {
+  const resolved = Object.fromEntries(ADJUSTMENT_KEYS.map((key) => [key, 0])) as ResolvedAdjustments
+  layers.forEach((layer) => {
+    const look = photoLooks[layer.look].amounts
+    ADJUSTMENT_KEYS.forEach((key) => {
+      resolved[key] += layer[key] + (look[key] ?? 0)
+    })
+  })
+  ADJUSTMENT_KEYS.forEach((key) => {
+    resolved[key] = clampAmount(key, resolved[key])
+  })
+  return ADJUSTMENT_KEYS.some((key) => resolved[key] !== 0) ? resolved : null
+}
+
+/** Applies resolved adjustments to RGBA pixels in place; alpha is left untouched. */
+export const applyAdjustments = (data: Uint8ClampedArray, adjustments: ResolvedAdjustments) => {
+  // Brightness and contrast only depend on the channel value, so they go through a table.
+  const offset = adjustments.brightness * 1.28
+  const contrast = (1 + adjustments.contrast / 100) ** 2
+  const table = new Float32Array(256)
+  for (let value = 0; value < 256; value += 1) {
+    table[value] = (value + offset - 128) * contrast + 128
+  }
+  const saturation = 1 + adjustments.saturation / 100
+  const warmth = adjustments.warmth * 0.4
+  const grayscale = adjustments.grayscale / 100
+  const sepia = adjustments.sepia / 100
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = table[data[i]]
+    let g = table[data[i + 1]]
+    let b = table[data[i + 2]]
+
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b
+    r = luma + (r - luma) * saturation + warmth
+    g = luma + (g - luma) * saturation
+    b = luma + (b - luma) * saturation - warmth
+
+    if (grayscale > 0) {
+      const gray = 0.2126 * r + 0.7152 * g + 0.0722 * b
+      r += (gray - r) * grayscale
+      g += (gray - g) * grayscale
+      b += (gray - b) * grayscale
+    }
+    if (sepia > 0) {
+      const sr = 0.393 * r + 0.769 * g + 0.189 * b
+      const sg = 0.349 * r + 0.686 * g + 0.168 * b
+      const sb = 0.272 * r + 0.534 * g + 0.131 * b
+      r += (sr - r) * sepia
+      g += (sg - g) * sepia
+      b += (sb - b) * sepia
+    }
+
+    // Uint8ClampedArray rounds and clamps on write.
+    data[i] = r
+    data[i + 1] = g
+    data[i + 2] = b
+  }
+}
+
+const filterCache = new WeakMap<ResolvedAdjustments, FilterFunction>()
+
+/** Konva filter for a cached node; the same object always yields the same function. */
+export const getAdjustmentFilter = (adjustments: ResolvedAdjustments) => {
+  let filter = filterCache.get(adjustments)
+  if (!filter) {
+    filter = (imageData: ImageData) => applyAdjustments(imageData.data, adjustments)
+    filterCache.set(adjustments, filter)
+  }
+  return filter
+}
@@ -0,0 +1,115 @@
+// Quick technical quality estimate used to pick the best photos from an import that is over
+// the photo limit. Everything is measured on a small copy of the photo, so it stays cheap
+// enough to run on hundreds of files on a phone.
+
+// Long side of the copy the measurements run on.
+export const QUALITY_SAMPLE_SIZE = 320
+// Pixels this close to pure black or white count as clipped.
+const CLIP_MARGIN = 4
+// Laplacian variance (log10) that counts as fully sharp at the sample size.
+const SHARP_LOG_VARIANCE = 3
+// Clipping share at which exposure scores zero.
+const MAX_CLIPPING = 0.25
+// Hasler–Süsstrunk colorfulness of a very colorful photo.
+const VIVID_COLORFULNESS = 100
+const WEIGHTS = { sharpness: 0.6, exposure: 0.25, colorfulness: 0.15 }
+
+export interface PhotoQuality {
+  // Variance of the Laplacian: low values mean blur or missed focus.
+  sharpness: number
+  // Share of pixels blown to white or crushed to black, 0–1.
+  clipping: number
+  colorfulness: number
+  // Weighted 0–100 summary used for ranking.
+  score: number
+}
+
+export const isBlurry = (quality: PhotoQuality) => Math.log10(1 + quality.sharpness) < SHARP_LOG_VARIANCE * 0.6
+
+export const isPoorlyExposed = (quality: PhotoQuality) => quality.clipping > MAX_CLIPPING * 0.5
+
+export const measurePhotoQuality = (image: CanvasImageSource, width: number, height: number): PhotoQuality | null => {
+  const scale = Math.min(1, QUALITY_SAMPLE_SIZE / Math.max(width, height))
+  const sampleWidth = Math.max(3, Math.round(width * scale))
+  const sampleHeight = Math.max(3, Math.round(height * scale))
+
+  let pixels: Uint8ClampedArray
+  try {
+    const canvas = document.createElement('canvas')
+    canvas.width = sampleWidth
+    canvas.height = sampleHeight
+    const context = canvas.getContext('2d', { willReadFrequently: true })
+    if (!context) {
+      return null
+    }
+    context.drawImage(image, 0, 0, sampleWidth, sampleHeight)
+    pixels = context.getImageData(0, 0, sampleWidth, sampleHeight).data
+  } catch (error) {
+    console.warn('Unable to measure photo quality', error)
+    return null
+  }
+
+  const count = sampleWidth * sampleHeight
+  const luma = new Float32Array(count)
+  let clipped = 0
+  let rgSum = 0
+  let rgSquares = 0
+  let ybSum = 0
+  let ybSquares = 0
+  for (let i = 0; i < count; i += 1) {
+    const r = pixels[i * 4]
+    const g = pixels[i * 4 + 1]
+    const b = pixels[i * 4 + 2]
+    const value = 0.299 * r + 0.587 * g + 0.114 * b
+    luma[i] = value
+    if (value <= CLIP_MARGIN || value >= 255 - CLIP_MARGIN) {
+      clipped += 1
+    }
+    const rg = r - g
+    const yb = (r + g) / 2 - b
+    rgSum += rg
+    rgSquares += rg * rg
+    ybSum += yb
+    ybSquares += yb * yb
+  }
+
+  // 4-neighbour Laplacian over the interior pixels.
+  let laplacianSum = 0
+  let laplacianSquares = 0
+  let laplacianCount = 0
+  for (let y = 1; y < sampleHeight - 1; y += 1) {
+    for (let x = 1; x < sampleWidth - 1; x += 1) {
+      const i = y * sampleWidth + x
+      const value = luma[i - 1] + luma[i + 1] + luma[i - sampleWidth] + luma[i + sampleWidth] - 4 * luma[i]
+      laplacianSum += value
+      laplacianSquares += value * value
+      laplacianCount += 1
+    }
+  }
+
+  const laplacianMean = laplacianSum / laplacianCount
+  const sharpness = laplacianSquares / laplacianCount - laplacianMean * laplacianMean
+  const clipping = clipped / count
+  const rgMean = rgSum / count
+  const ybMean = ybSum / count
+  const rgDeviation = Math.sqrt(Math.max(0, rgSquares / count - rgMean * rgMean))
+  const ybDeviation = Math.sqrt(Math.max(0, ybSquares / count - ybMean * ybMean))
+  const colorfulness = Math.hypot(rgDeviation, ybDeviation) + 0.3 * Math.hypot(rgMean, ybMean)
+
+  const score =
+    WEIGHTS.sharpness * Math.min(1, Math.log10(1 + sharpness) / SHARP_LOG_VARIANCE) +
+    WEIGHTS.exposure * Math.max(0, 1 - clipping / MAX_CLIPPING) +
+    WEIGHTS.colorfulness * Math.min(1, colorfulness / VIVID_COLORFULNESS)
+
+  return { sharpness, clipping, colorfulness, score: Math.round(score * 100) }
+}
+
+/** Indices of the `limit` best-scoring photos; photos that couldn't be measured go last. */
+export const pickBestPhotos = (qualities: (PhotoQuality | null)[], limit: number) =>
+  new Set(
+    qualities
+      .map((quality, index) => ({ index, score: quality?.score ?? -1 }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit)
+      .map(({ index }) => index),
+  )
@@ -0,0 +1,233 @@
+import type { CropRect } from './layouts'
+import type { PhotoEdits, Point, QuarterTurn } from './photoEdits'
+import { sanitizeAdjustments } from './photoFilters'
+import { readZip, writeZip, crc32 } from './zip'
+import type { ZipEntry } from './zip'
+
+// A `.onepic` project is a ZIP holding `manifest.json` plus the untouched source photos,
+// so a half-finished collage can be handed to someone else and reopened exactly.
+
+export const PROJECT_EXTENSION = 'onepic'
+export const PROJECT_FORMAT = 'onepic-project'
+// Bump when the manifest changes shape; older files must keep opening.
+// 2: photos gained `caption` and `edits.adjustments`; version 1 files have neither.
+export const PROJECT_VERSION = 2
+
+const MANIFEST_NAME = 'manifest.json'
+const PHOTO_FOLDER = 'photos'
+const RESERVED_NAME_CHARS = '\\/:*?"<>|'
+const QUARTER_TURNS: QuarterTurn[] = [0, 90, 180, 270]
+
+export interface ProjectPhoto {
+  id: string
+  name: string
+  type: string
+  lastModified: number
+  span: number
+  edits: PhotoEdits
+  // Label text; null (or missing, in older files) follows the collage's default label.
+  caption: string | null
+}
+
+interface ManifestPhoto extends ProjectPhoto {
+  path: string
+}
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT
+  version: number
+  createdAt: number
+  // Layout, caption and export settings; validated by the app, which owns their meaning.
+  settings: unknown
+  photos: ManifestPhoto[]
+}
+
+export interface OpenedProject {
+  settings: unknown
+  photos: (ProjectPhoto & { file: File })[]
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isUnitNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1
+
+const parseCrop = (value: unknown, label: string): CropRect | null => {
+  if (value === null) {
+    return null
+  }
+  if (
+    !isRecord(value) ||
+    !isUnitNumber(value.x) ||
+    !isUnitNumber(value.y) ||
+    !isUnitNumber(value.width) ||
+    !isUnitNumber(value.height) ||
+    value.width === 0 ||
+    value.height === 0 ||
+    value.x + value.width > 1.000001 ||
+    value.y + value.height > 1.000001
+  ) {
+    throw new Error(`${label} has an invalid crop.`)
+  }
+  return { x: value.x, y: value.y, width: value.width, height: value.height }
+}
+
+const parseFocus = (value: unknown, label: string): Point | null => {
+  if (value === null) {
+    return null
+  }
+  if (!isRecord(value) || !isUnitNumber(value.x) || !isUnitNumber(value.y)) {
+    throw new Error(`${label} has an invalid focal point.`)
+  }
+  return { x: value.x, y: value.y }
+}
+
+const parseEdits = (value: unknown, label: string): PhotoEdits => {
+  if (!isRecord(value)) {
+    throw new Error(`${label} is missing its edits.`)
+  }
+  if (!QUARTER_TURNS.includes(value.rotation as QuarterTurn)) {
+    throw new Error(`${label} has an invalid rotation.`)
+  }
+  if (typeof value.flipped !== 'boolean') {
+    throw new Error(`${label} has an invalid flip setting.`)
+  }
+  return {
+    crop: parseCrop(value.crop ?? null, label),
+    rotation: value.rotation as QuarterTurn,
+    flipped: value.flipped,
+    focus: parseFocus(value.focus ?? null, label),
+    // Version 1 projects have no adjustments; out-of-range values are clamped rather than refused.
+    adjustments: sanitizeAdjustments(value.adjustments),
+  }
+}
+
+const parsePhoto = (value: unknown, index: number): ManifestPhoto => {
+  const label = `Photo ${index + 1}`
+  if (!isRecord(value)) {
+    throw new Error(`${label} is not described correctly.`)
+  }
+  if (typeof value.id !== 'string' || !value.id || typeof value.path !== 'string' || typeof value.name !== 'string') {
+    throw new Error(`${label} is missing its id, name or file path.`)
+  }
+  if (typeof value.span !== 'number' || !Number.isInteger(value.span) || value.span < 1) {
+    throw new Error(`${label} has an invalid span.`)
+  }
+  return {
+    id: value.id,
+    path: value.path,
+    name: value.name,
+    type: typeof value.type === 'string' ? value.type : '',
+    lastModified: typeof value.lastModified === 'number' ? value.lastModified : 0,
+    span: value.span,
+    edits: parseEdits(value.edits, label),
+    caption: typeof value.caption === 'string' ? value.caption : null,
+  }
+}
+
+const parseManifest = (text: string): ProjectManifest => {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error('The project manifest is not valid JSON.')
+  }
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new Error('This file is not a OnePic project.')
+  }
+  if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+    throw new Error('The project manifest has no valid version.')
+  }
+  if (raw.version > PROJECT_VERSION) {
+    throw new Error(
+      `This project was saved by a newer version of OnePic (format ${raw.version}). Reload the app to update it, then try again.`,
+    )
+  }
+  if (!Array.isArray(raw.photos) || !raw.photos.length) {
+    throw new Error('The project contains no photos.')
+  }
+
+  const photos = raw.photos.map(parsePhoto)
+  const ids = new Set(photos.map((photo) => photo.id))
+  if (ids.size !== photos.length) {
+    throw new Error('The project lists the same photo twice.')
+  }
+
+  return {
+    format: PROJECT_FORMAT,
+    version: raw.version,
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : 0,
+    settings: raw.settings,
+    photos,
+  }
+}
+
+// Keep archive paths portable: no folders, control characters or reserved punctuation.
+const toArchiveName = (name: string, index: number) => {
+  const safe =
+    Array.from(name, (char) => (char < ' ' || RESERVED_NAME_CHARS.includes(char) ? '_' : char))
+      .join('')
+      .slice(-120) || 'photo'
+  return `${PHOTO_FOLDER}/${String(index + 1).padStart(3, '0')}-${safe}`
+}
+
+export const writeProject = async (settings: unknown, photos: (ProjectPhoto & { file: Blob })[]) => {
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    createdAt: Date.now(),
+    settings,
+    photos: photos.map(({ file, ...photo }, index) => ({ ...photo, type: photo.type || file.type, path: toArchiveName(photo.name, index) })),
+  }
+  const entries: ZipEntry[] = [
+    { name: MANIFEST_NAME, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) },
+    ...photos.map((photo, index) => ({ name: manifest.photos[index].path, data: photo.file })),
+  ]
+  return writeZip(entries)
+}
+
+/**
+ * Reads and validates a project; throws an Error with a user-facing message on problems.
+ * Projects with more than `maxPhotos` photos are refused before any photo is read.
+ */
+export const readProject = async (file: Blob, maxPhotos: number): Promise<OpenedProject> => {
+  let entries
+  try {
+    entries = await readZip(file)
+  } catch (error) {
+    const reason = error instanceof Error ? ` ${error.message}` : ''
+    throw new Error(`The project file is damaged or not a OnePic project.${reason}`)
+  }
+
+  const manifestEntry = entries.find((entry) => entry.name === MANIFEST_NAME)
+  if (!manifestEntry) {
+    throw new Error('This file is not a OnePic project (no manifest found).')
+  }
+  const manifestBytes = new Uint8Array(await (await manifestEntry.read()).arrayBuffer())
+  if (crc32(manifestBytes) !== manifestEntry.crc32) {
+    throw new Error('The project manifest is damaged.')
+  }
+  const manifest = parseManifest(new TextDecoder().decode(manifestBytes))
+  if (manifest.photos.length > maxPhotos) {
+    throw new Error(`This project has ${manifest.photos.length} photos; this device can open up to ${maxPhotos}.`)
+  }
+
+  const entryMap = new Map(entries.map((entry) => [entry.name, entry]))
+  // One photo at a time, so only a single photo's bytes are held for its checksum.
+  const photos: OpenedProject['photos'] = []
+  for (const { path, ...photo } of manifest.photos) {
+    const entry = entryMap.get(path)
+    if (!entry) {
+      throw new Error(`The project is missing the file for “${photo.name}”.`)
+    }
+    const data = await entry.read()
+    // A damaged photo may still decode, so its checksum is the only reliable sign.
+    if (crc32(new Uint8Array(await data.arrayBuffer())) !== entry.crc32) {
+      throw new Error(`The file for “${photo.name}” in this project is corrupt.`)
+    }
+    photos.push({ ...photo, file: new File([data], photo.name, { type: photo.type, lastModified: photo.lastModified }) })
+  }
+
+  return { settings: manifest.settings, photos }
+}
@@ -0,0 +1,134 @@
+// Browsers can't decode camera RAW data, but CR2, NEF, ARW and DNG files are TIFF containers
+// that also carry a JPEG preview, usually full size or close to it. That preview is what
+// gets imported.
+
+const RAW_EXTENSIONS = new Set(['cr2', 'nef', 'arw', 'dng'])
+// The IFDs describing the previews sit near the start of the file; the previews themselves
+// are sliced from the file lazily, so a 50 MB RAW never has to be read into memory.
+const HEADER_READ_BYTES = 1024 * 1024
+// Enough of a candidate to find its frame header and reject lossless (raw sensor) JPEGs.
+const PROBE_BYTES = 64 * 1024
+// Tiny thumbnails aren't worth importing.
+const MIN_PREVIEW_BYTES = 32 * 1024
+const MAX_IFDS = 32
+
+const TAG_COMPRESSION = 0x0103
+const TAG_STRIP_OFFSETS = 0x0111
+const TAG_STRIP_BYTE_COUNTS = 0x0117
+const TAG_SUB_IFDS = 0x014a
+const TAG_JPEG_OFFSET = 0x0201
+const TAG_JPEG_LENGTH = 0x0202
+
+const TYPE_SHORT = 3
+const TYPE_LONG = 4
+const TYPE_IFD = 13
+// Old-style and new-style JPEG compression.
+const JPEG_COMPRESSION = new Set([6, 7])
+
+interface PreviewCandidate {
+  offset: number
+  length: number
+}
+
+export const isRawFile = (file: File) => RAW_EXTENSIONS.has(file.name.split('.').pop()?.toLowerCase() ?? '')
+
+const readValues = (view: DataView, entry: number, little: boolean) => {
+  const type = view.getUint16(entry + 2, little)
+  const count = view.getUint32(entry + 4, little)
+  const size = type === TYPE_SHORT ? 2 : type === TYPE_LONG || type === TYPE_IFD ? 4 : 0
+  if (!size) {
+    return []
+  }
+  const start = count * size > 4 ? view.getUint32(entry + 8, little) : entry + 8
+  const values: number[] = []
+  for (let i = 0; i < count && start + (i + 1) * size <= view.byteLength; i += 1) {
+    values.push(size === 2 ? view.getUint16(start + i * 2, little) : view.getUint32(start + i * 4, little))
+  }
+  return values
+}
+
+// Walks IFD0's chain and every SubIFD, collecting embedded JPEGs by offset and length.
+const findPreviewCandidates = (view: DataView) => {
+  const byteOrder = view.getUint16(0)
+  const little = byteOrder === 0x4949
+  if ((!little && byteOrder !== 0x4d4d) || view.getUint16(2, little) !== 42) {
+    return []
+  }
+
+  const candidates: PreviewCandidate[] = []
+  const pending = [view.getUint32(4, little)]
+  const visited = new Set<number>()
+  while (pending.length && visited.size < MAX_IFDS) {
+    const start = pending.shift() as number
+    if (!start || visited.has(start) || start + 2 > view.byteLength) {
+      continue
+    }
+    visited.add(start)
+
+    const tags = new Map<number, number[]>()
+    const count = view.getUint16(start, little)
+    for (let i = 0; i < count && start + 2 + (i + 1) * 12 <= view.byteLength; i += 1) {
+      const entry = start + 2 + i * 12
+      tags.set(view.getUint16(entry, little), readValues(view, entry, little))
+    }
+
+    const jpegOffset = tags.get(TAG_JPEG_OFFSET)?.[0]
+    const jpegLength = tags.get(TAG_JPEG_LENGTH)?.[0]
+    if (jpegOffset && jpegLength) {
+      candidates.push({ offset: jpegOffset, length: jpegLength })
+    }
+    // CR2 and DNG store their previews as a JPEG-compressed image in a single strip.
+    const stripOffsets = tags.get(TAG_STRIP_OFFSETS)
+    const stripLengths = tags.get(TAG_STRIP_BYTE_COUNTS)
+    if (JPEG_COMPRESSION.has(tags.get(TAG_COMPRESSION)?.[0] ?? 0) && stripOffsets?.length === 1 && stripLengths?.length === 1) {
+      candidates.push({ offset: stripOffsets[0], length: stripLengths[0] })
+    }
+
+    pending.push(...(tags.get(TAG_SUB_IFDS) ?? []))
+    const nextEntry = start + 2 + count * 12
+    if (nextEntry + 4 <= view.byteLength) {
+      pending.push(view.getUint32(nextEntry, little))
+    }
+  }
+  return candidates
+}
+
+// A usable preview is a baseline or progressive JPEG; lossless JPEG (SOF3) is raw sensor data.
+const isDisplayableJpeg = (view: DataView) => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return false
+  }
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+      return false
+    }
+    if (marker === 0xffc0 || marker === 0xffc1 || marker === 0xffc2) {
+      return true
+    }
+    if (marker === 0xffc3) {
+      return false
+    }
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return false
+}
+
+/** The largest displayable JPEG embedded in a RAW file, as a file of its own. */
+export const extractRawPreview = async (file: File) => {
+  const header = new DataView(await file.slice(0, HEADER_READ_BYTES).arrayBuffer())
+  const candidates = header.byteLength >= 8 ? findPreviewCandidates(header) : []
+  const sorted = candidates
+    .filter(({ offset, length }) => length >= MIN_PREVIEW_BYTES && offset + length <= file.size)
+    .sort((a, b) => b.length - a.length)
+
+  for (const { offset, length } of sorted) {
+    const probe = new DataView(await file.slice(offset, offset + Math.min(length, PROBE_BYTES)).arrayBuffer())
+    if (isDisplayableJpeg(probe)) {
+      const name = `${file.name.replace(/\.[^.]+$/, '')}.jpg`
+      return new File([file.slice(offset, offset + length)], name, { type: 'image/jpeg', lastModified: file.lastModified })
+    }
+  }
+  throw new Error(`No preview image found in ${file.name}`)
+}
@@ -0,0 +1,198 @@
+import type { PhotoEdits } from './photoEdits'
+
+// The working collage is kept in IndexedDB so a refresh or a mobile tab eviction doesn't
+// lose it. Source files are written once on import; order, edits and settings are small
+// and rewritten as a single record whenever they change.
+
+const DB_NAME = 'onepic'
+const DB_VERSION = 1
+const PHOTO_STORE = 'photos'
+const SESSION_STORE = 'session'
+const SESSION_KEY = 'current'
+// Leave some room for the session record and whatever else the origin stores.
+const QUOTA_HEADROOM = 1.1
+
+export interface StoredPhotoFile {
+  id: string
+  name: string
+  lastModified: number
+  blob: Blob
+}
+
+export interface SavedPhotoState {
+  id: string
+  span: number
+  edits: PhotoEdits
+  // Missing from sessions saved before photos had labels.
+  caption?: string | null
+}
+
+export interface SavedSession<Settings> {
+  savedAt: number
+  settings: Settings
+  // Manual order; any active sort is part of the settings.
+  photos: SavedPhotoState[]
+}
+
+export interface SessionSummary {
+  savedAt: number
+  photoCount: number
+}
+
+const supportsIndexedDb = typeof indexedDB !== 'undefined'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const database = request.result
+        if (!database.objectStoreNames.contains(PHOTO_STORE)) {
+          database.createObjectStore(PHOTO_STORE, { keyPath: 'id' })
+        }
+        if (!database.objectStoreNames.contains(SESSION_STORE)) {
+          database.createObjectStore(SESSION_STORE)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error ?? new Error('Unable to open the session database'))
+    })
+    // Let a later call retry after a failure (e.g. private mode refusing storage).
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'))
+  })
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'))
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'))
+  })
+
+/**
+ * Resolves `false` when the browser reports too little free quota for `bytes`. Browsers
+ * without the estimate API get the benefit of the doubt; a failed write is caught later.
+ */
+export const hasStorageFor = async (bytes: number) => {
+  if (!navigator.storage?.estimate) {
+    return true
+  }
+  try {
+    const { quota, usage } = await navigator.storage.estimate()
+    if (quota === undefined || usage === undefined) {
+      return true
+    }
+    return quota - usage >= bytes * QUOTA_HEADROOM
+  } catch {
+    return true
+  }
+}
+
+let persistenceRequested = false
+
+// Ask once for persistent storage so the browser is less eager to evict the session.
+const requestPersistence = () => {
+  if (persistenceRequested || !navigator.storage?.persist) {
+    return
+  }
+  persistenceRequested = true
+  navigator.storage.persist().catch(() => undefined)
+}
+
+export const storePhotoFiles = async (files: StoredPhotoFile[]) => {
+  if (!supportsIndexedDb || !files.length) {
+    return
+  }
+  requestPersistence()
+  const database = await openDatabase()
+  const transaction = database.transaction(PHOTO_STORE, 'readwrite')
+  const store = transaction.objectStore(PHOTO_STORE)
+  files.forEach((file) => store.put(file))
+  await transactionDone(transaction)
+}
+
+/**
+ * Writes the session record and drops stored files that are no longer part of it.
+ * `retainedIds` keeps files the session doesn't use right now but may get back (undo steps).
+ */
+export const saveSession = async <Settings>(
+  settings: Settings,
+  photos: SavedPhotoState[],
+  retainedIds: Iterable<string> = [],
+) => {
+  if (!supportsIndexedDb) {
+    return
+  }
+  const database = await openDatabase()
+  const transaction = database.transaction([PHOTO_STORE, SESSION_STORE], 'readwrite')
+  const done = transactionDone(transaction)
+  const photoStore = transaction.objectStore(PHOTO_STORE)
+  const session: SavedSession<Settings> = { savedAt: Date.now(), settings, photos }
+  transaction.objectStore(SESSION_STORE).put(session, SESSION_KEY)
+
+  const keep = new Set([...photos.map((photo) => photo.id), ...retainedIds])
+  const storedIds = await requestToPromise(photoStore.getAllKeys())
+  storedIds.forEach((id) => {
+    if (typeof id === 'string' && !keep.has(id)) {
+      photoStore.delete(id)
+    }
+  })
+  await done
+}
+
+export const getSessionSummary = async (): Promise<SessionSummary | null> => {
+  if (!supportsIndexedDb) {
+    return null
+  }
+  const database = await openDatabase()
+  const session = await requestToPromise<SavedSession<unknown> | undefined>(
+    database.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(SESSION_KEY),
+  )
+  return session?.photos.length ? { savedAt: session.savedAt, photoCount: session.photos.length } : null
+}
+
+/** Loads the saved session with its files; photos whose file went missing are skipped. */
+export const loadSession = async <Settings>() => {
+  if (!supportsIndexedDb) {
+    return null
+  }
+  const database = await openDatabase()
+  const transaction = database.transaction([PHOTO_STORE, SESSION_STORE])
+  const session = await requestToPromise<SavedSession<Settings> | undefined>(
+    transaction.objectStore(SESSION_STORE).get(SESSION_KEY),
+  )
+  if (!session) {
+    return null
+  }
+  const files = await requestToPromise<StoredPhotoFile[]>(transaction.objectStore(PHOTO_STORE).getAll())
+  const fileMap = new Map(files.map((file) => [file.id, file]))
+  return {
+    settings: session.settings,
+    photos: session.photos.flatMap((photo) => {
+      const file = fileMap.get(photo.id)
+      return file ? [{ ...photo, file }] : []
+    }),
+  }
+}
+
+export const clearSession = async () => {
+  if (!supportsIndexedDb) {
+    return
+  }
+  const database = await openDatabase()
+  const transaction = database.transaction([PHOTO_STORE, SESSION_STORE], 'readwrite')
+  transaction.objectStore(PHOTO_STORE).clear()
+  transaction.objectStore(SESSION_STORE).clear()
+  await transactionDone(transaction)
+}
@@ -0,0 +1,171 @@
+import { resolvePhotoTimestamp } from './captions'
+import type { DatedPhoto } from './captions'
+
+export type SortMode = 'manual' | 'captured' | 'filename' | 'aspect' | 'hue' | 'shuffle'
+
+export const sortModes: Record<SortMode, { label: string; directional: boolean }> = {
+  manual: { label: 'Manual', directional: false },
+  captured: { label: 'Capture date', directional: true },
+  filename: { label: 'Filename', directional: true },
+  aspect: { label: 'Aspect ratio', directional: true },
+  hue: { label: 'Color', directional: true },
+  shuffle: { label: 'Random', directional: false },
+}
+
+export interface SortablePhoto extends DatedPhoto {
+  id: string
+  name: string
+  width: number
+  height: number
+  image: CanvasImageSource
+}
+
+export interface SortOptions {
+  mode: SortMode
+  descending: boolean
+  seed: number
+}
+
+const HUE_SAMPLE_SIZE = 24
+const HUE_BINS = 36
+const MIN_SATURATION = 0.18
+// Near-gray photos have no meaningful hue; they trail the rainbow, ordered dark to light.
+const GRAYSCALE_KEY_OFFSET = 1000
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' })
+
+// Sampling is cheap but not free, so remember the key per decoded image.
+const hueCache = new WeakMap<object, number>()
+
+const measureHueKey = (image: CanvasImageSource) => {
+  const cached = hueCache.get(image)
+  if (cached !== undefined) {
+    return cached
+  }
+
+  let key = GRAYSCALE_KEY_OFFSET
+  try {
+    const canvas = document.createElement('canvas')
+    canvas.width = HUE_SAMPLE_SIZE
+    canvas.height = HUE_SAMPLE_SIZE
+    const context = canvas.getContext('2d', { willReadFrequently: true })
+    if (context) {
+      context.drawImage(image, 0, 0, HUE_SAMPLE_SIZE, HUE_SAMPLE_SIZE)
+      key = computeHueKey(context.getImageData(0, 0, HUE_SAMPLE_SIZE, HUE_SAMPLE_SIZE).data)
+    }
+  } catch (error) {
+    console.warn('Unable to sample photo colors', error)
+  }
+
+  hueCache.set(image, key)
+  return key
+}
+
+const computeHueKey = (pixels: Uint8ClampedArray) => {
+  const bins = new Float64Array(HUE_BINS)
+  let lightnessSum = 0
+  let sampleCount = 0
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    const r = pixels[i] / 255
+    const g = pixels[i + 1] / 255
+    const b = pixels[i + 2] / 255
+    const max = Math.max(r, g, b)
+    const min = Math.min(r, g, b)
+    const delta = max - min
+    lightnessSum += (max + min) / 2
+    sampleCount += 1
+
+    const saturation = max === 0 ? 0 : delta / max
+    if (saturation < MIN_SATURATION || delta === 0) {
+      continue
+    }
+
+    let hue: number
+    if (max === r) {
+      hue = ((g - b) / delta + 6) % 6
+    } else if (max === g) {
+      hue = (b - r) / delta + 2
+    } else {
+      hue = (r - g) / delta + 4
+    }
+    // Vivid, bright pixels say more about the photo's color than muddy ones.
+    bins[Math.floor((hue / 6) * HUE_BINS) % HUE_BINS] += saturation * max
+  }
+
+  let dominantBin = -1
+  let dominantWeight = 0
+  bins.forEach((weight, index) => {
+    if (weight > dominantWeight) {
+      dominantWeight = weight
+      dominantBin = index
+    }
+  })
+
+  if (dominantBin === -1 || dominantWeight < sampleCount * 0.02) {
+    return GRAYSCALE_KEY_OFFSET + (sampleCount ? lightnessSum / sampleCount : 0)
+  }
+  return ((dominantBin + 0.5) / HUE_BINS) * 360
+}
+
+// mulberry32: tiny deterministic PRNG so the same seed always yields the same shuffle.
+const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const shuffle = <T>(photos: T[], seed: number) => {
+  const random = createRandom(seed)
+  const result = [...photos]
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+// Photos without a date stay at the end whichever direction is chosen.
+const compareNullable = (a: number | null, b: number | null, direction: number) => {
+  if (a === null && b === null) return 0
+  if (a === null) return 1
+  if (b === null) return -1
+  return (a - b) * direction
+}
+
+export function sortPhotos<T extends SortablePhoto>(photos: T[], options: SortOptions): T[] {
+  if (options.mode === 'manual' || photos.length < 2) {
+    return photos
+  }
+
+  if (options.mode === 'shuffle') {
+    return shuffle(photos, options.seed)
+  }
+
+  const direction = options.descending ? -1 : 1
+  let compare: (a: T, b: T) => number
+  switch (options.mode) {
+    case 'captured':
+      compare = (a, b) => compareNullable(resolvePhotoTimestamp(a), resolvePhotoTimestamp(b), direction)
+      break
+    case 'filename':
+      compare = (a, b) => naturalCollator.compare(a.name, b.name) * direction
+      break
+    case 'aspect':
+      // Portraits first, then squares, then landscapes.
+      compare = (a, b) => (a.width / a.height - b.width / b.height) * direction
+      break
+    default: {
+      const keys = new Map(photos.map((photo) => [photo.id, measureHueKey(photo.image)]))
+      compare = (a, b) => ((keys.get(a.id) ?? 0) - (keys.get(b.id) ?? 0)) * direction
+    }
+  }
+
+  // Array.prototype.sort is stable, so ties keep their manual order in both directions.
+  return [...photos].sort(compare)
+}
@@ -0,0 +1,131 @@
+import { format } from 'date-fns'
+import type Konva from 'konva'
+import { captionFonts } from './captionDesign'
+import type { CaptionAlign, CaptionFont } from './captionDesign'
+import type { LayoutItem } from './layouts'
+
+// Labels drawn on each photo: names, places, step numbers. A photo's own caption wins;
+// photos without one fall back to the default source for the whole collage.
+
+export type TileLabelMode = 'off' | 'strip' | 'overlay'
+export type TileLabelSource = 'none' | 'filename' | 'date'
+
+export interface TileLabelStyle {
+  mode: TileLabelMode
+  source: TileLabelSource
+  font: CaptionFont
+  size: number
+  align: CaptionAlign
+}
+
+export interface LabeledPhoto {
+  name: string
+  capturedAt: number | null
+  // null follows the collage's default source; an empty string hides the label.
+  caption: string | null
+}
+
+export const defaultTileLabelStyle: TileLabelStyle = {
+  mode: 'off',
+  source: 'filename',
+  font: 'inter',
+  size: 48,
+  align: 'center',
+}
+
+export const tileLabelModes: Record<TileLabelMode, { label: string }> = {
+  off: { label: 'Off' },
+  strip: { label: 'Below' },
+  overlay: { label: 'Overlay' },
+}
+
+export const tileLabelSources: Record<TileLabelSource, { label: string }> = {
+  none: { label: 'Nothing' },
+  filename: { label: 'File name' },
+  date: { label: 'Capture date' },
+}
+
+export const tileLabelLimits = {
+  size: { min: 24, max: 120, step: 4 },
+} as const
+
+const LABEL_ALIGNS: CaptionAlign[] = ['left', 'center', 'right']
+// Strip (or overlay band) height relative to the text size, and the text's side inset.
+const BAND_RATIO = 1.9
+const INSET_RATIO = 0.5
+
+export const sanitizeTileLabelStyle = (raw: unknown): TileLabelStyle => {
+  if (typeof raw !== 'object' || raw === null) {
+    return defaultTileLabelStyle
+  }
+  const value = raw as Record<string, unknown>
+  const style = { ...defaultTileLabelStyle }
+  if (typeof value.mode === 'string' && Object.hasOwn(tileLabelModes, value.mode)) {
+    style.mode = value.mode as TileLabelMode
+  }
+  if (typeof value.source === 'string' && Object.hasOwn(tileLabelSources, value.source)) {
+    style.source = value.source as TileLabelSource
+  }
+  if (typeof value.font === 'string' && Object.hasOwn(captionFonts, value.font)) {
+    style.font = value.font as CaptionFont
+  }
+  if (typeof value.size === 'number' && Number.isFinite(value.size)) {
+    style.size = Math.min(Math.max(value.size, tileLabelLimits.size.min), tileLabelLimits.size.max)
+  }
+  if (LABEL_ALIGNS.includes(value.align as CaptionAlign)) {
+    style.align = value.align as CaptionAlign
+  }
+  return style
+}
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '') || name
+
+/** Text the collage's default source gives a photo, ignoring its own caption. */
+export const getDefaultTileLabel = (source: TileLabelSource, photo: LabeledPhoto) => {
+  switch (source) {
+    case 'filename':
+      return stripExtension(photo.name)
+    case 'date':
+      return photo.capturedAt === null ? '' : format(new Date(photo.capturedAt), 'MMM d, yyyy')
+    default:
+      return ''
+  }
+}
+
+export const getTileLabel = (style: TileLabelStyle, photo: LabeledPhoto) =>
+  (photo.caption ?? getDefaultTileLabel(style.source, photo)).trim()
+
+export const getTileLabelBandHeight = (style: TileLabelStyle) => Math.round(style.size * BAND_RATIO)
+
+/** Height the layout keeps free under every photo; overlays sit on the photo instead. */
+export const getTileLabelStripHeight = (style: TileLabelStyle) =>
+  style.mode === 'strip' ? getTileLabelBandHeight(style) : 0
+
+/** Band the label occupies: the slot's strip, or the bottom of the photo for overlays. */
+export const getTileLabelBand = (style: TileLabelStyle, item: LayoutItem) => {
+  const height = Math.min(getTileLabelBandHeight(style), item.height)
+  return { x: item.x, y: item.y + item.height - height, width: item.width, height }
+}
+
+/** Single-line Konva props; long labels end in an ellipsis rather than wrapping. */
+export const getTileLabelTextConfig = (
+  style: TileLabelStyle,
+  text: string,
+  band: { x: number; y: number; width: number; height: number },
+): Konva.TextConfig => {
+  const inset = style.size * INSET_RATIO
+  return {
+    text,
+    x: band.x + inset,
+    y: band.y,
+    width: Math.max(0, band.width - inset * 2),
+    height: band.height,
+    fontSize: style.size,
+    fontFamily: captionFonts[style.font].family,
+    fontStyle: '500',
+    align: style.align,
+    verticalAlign: 'middle',
+    wrap: 'none',
+    ellipsis: true,
+  }
+}
@@ -1,3 +1,21 @@
 /// <reference types="vite/client" />
 
 declare module '@fontsource-variable/space-grotesk'
+
+// libheif's WebAssembly build with the binary inlined; only the parts the app uses are typed.
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  export interface HeifImage {
+    get_width(): number
+    get_height(): number
+    is_primary(): boolean
+    display(target: ImageData, callback: (result: ImageData | null) => void): void
+    free(): void
+  }
+
+  export interface LibHeif {
+    HeifDecoder: new () => { decode(buffer: Uint8Array): HeifImage[] }
+  }
+
+  const createLibHeif: () => LibHeif
+  export default createLibHeif
+}
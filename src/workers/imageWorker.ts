@@ -0,0 +1,182 @@
+import { drawTile } from '../collageStyle'
+import { decodeHeicBitmap, isHeicFile } from '../heicDecoder'
+import type { ExportJob, SceneFill, SceneTile, WorkerRequest, WorkerResponse } from '../imageWorkers'
+import { applyAdjustments } from '../photoFilters'
+
+// The app compiles against the DOM lib; this is the slice of the worker scope we use.
+const scope = self as unknown as {
+  addEventListener(type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void): void
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void
+}
+
+// Photo tiles received for export jobs that haven't started yet, by job id.
+const pendingTiles = new Map<number, SceneTile[]>()
+
+const closeTiles = (tiles: SceneTile[]) => tiles.forEach(({ bitmap }) => bitmap.close())
+
+const decode = async (id: number, file: File, maxWidth: number) => {
+  // Browsers that ship OffscreenCanvas also honour EXIF orientation here. HEIC files the
+  // browser can't read go through libheif, which hands back upright pixels.
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  } catch (error) {
+    if (!isHeicFile(file)) {
+      throw error
+    }
+    bitmap = await decodeHeicBitmap(file)
+  }
+  const scale = Math.min(1, maxWidth / bitmap.width)
+  const width = Math.round(bitmap.width * scale)
+  const height = Math.round(bitmap.height * scale)
+
+  let result = bitmap
+  if (scale < 1) {
+    result = await createImageBitmap(bitmap, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' })
+    bitmap.close()
+  }
+
+  scope.postMessage({ id, type: 'decoded', bitmap: result, width, height }, [result])
+}
+
+const resolveFill = (context: OffscreenCanvasRenderingContext2D, fill: SceneFill) => {
+  if (fill.type === 'gradient') {
+    const gradient = context.createLinearGradient(fill.start.x, fill.start.y, fill.end.x, fill.end.y)
+    gradient.addColorStop(0, fill.from)
+    gradient.addColorStop(1, fill.to)
+    return gradient
+  }
+  return fill.type === 'color' ? fill.color : null
+}
+
+// Adjustments work on pixels, so an adjusted tile is painted alone at output resolution,
+// filtered there and composited, the way Konva filters a cached tile.
+const drawAdjustedTile = (context: OffscreenCanvasRenderingContext2D, tile: SceneTile, pixelScale: number) => {
+  const { slot } = tile
+  const width = Math.max(1, Math.ceil(slot.width * pixelScale))
+  const height = Math.max(1, Math.ceil(slot.height * pixelScale))
+  const scratch = new OffscreenCanvas(width, height)
+  const scratchContext = scratch.getContext('2d')
+  if (!scratchContext || !tile.adjustments) {
+    throw new Error('Unable to create an adjustment canvas')
+  }
+  scratchContext.setTransform(pixelScale, 0, 0, pixelScale, -slot.x * pixelScale, -slot.y * pixelScale)
+  drawTile(scratchContext, tile.bitmap, tile.draw, tile.cornerRadius)
+  const pixels = scratchContext.getImageData(0, 0, width, height)
+  applyAdjustments(pixels.data, tile.adjustments)
+  scratchContext.putImageData(pixels, 0, 0)
+  context.drawImage(scratch, slot.x, slot.y, width / pixelScale, height / pixelScale)
+  scratch.width = 0
+  scratch.height = 0
+}
+
+const paintScene = (context: OffscreenCanvasRenderingContext2D, job: ExportJob, tiles: SceneTile[], scale: number) => {
+  const { scene } = job
+  const pixelScale = job.outputScale * scale
+  context.setTransform(pixelScale, 0, 0, pixelScale, 0, 0)
+
+  if (scene.frame) {
+    const fillStyle = resolveFill(context, scene.frame.fill)
+    if (fillStyle) {
+      context.fillStyle = fillStyle
+      context.fillRect(0, 0, scene.width, scene.height)
+    } else if (scene.frame.fill.type === 'image') {
+      context.drawImage(scene.frame.fill.bitmap, 0, 0, scene.width, scene.height)
+    }
+    // Konva centres strokes on the edge, so only the inner half shows on the canvas.
+    context.strokeStyle = scene.frame.stroke
+    context.lineWidth = scene.frame.strokeWidth
+    context.strokeRect(0, 0, scene.width, scene.height)
+  }
+
+  // All shadows go down before any photo, matching the preview's separate shadow layer.
+  const { shadow } = scene
+  if (shadow) {
+    tiles.forEach(({ slot, cornerRadius }) => {
+      // Canvas shadows ignore the transform, so scale them the way Konva does.
+      context.save()
+      context.shadowColor = shadow.color
+      context.shadowBlur = shadow.blur * pixelScale
+      context.shadowOffsetY = shadow.offsetY * pixelScale
+      context.fillStyle = '#000'
+      context.beginPath()
+      context.roundRect(slot.x, slot.y, slot.width, slot.height, cornerRadius)
+      context.fill()
+      context.restore()
+    })
+  }
+
+  tiles.forEach((tile) => {
+    if (tile.adjustments) {
+      drawAdjustedTile(context, tile, pixelScale)
+    } else {
+      drawTile(context, tile.bitmap, tile.draw, tile.cornerRadius)
+    }
+  })
+
+  scene.overlays.forEach(({ bitmap, x, y, width, height }) => {
+    context.drawImage(bitmap, x, y, width, height)
+  })
+}
+
+// Mirrors `attemptExport` on the main thread: retry smaller when the canvas can't be allocated,
+// but fail straight away when the browser can't encode the format at all.
+const exportScene = async (id: number, job: ExportJob) => {
+  const tiles = pendingTiles.get(id) ?? []
+  pendingTiles.delete(id)
+  let lastError: unknown = null
+  try {
+    for (const scale of job.scales) {
+      scope.postMessage({ id, type: 'progress', message: `Exporting at ${Math.round(scale * 100)}% resolution...` })
+      let blob: Blob
+      try {
+        const canvas = new OffscreenCanvas(
+          Math.round(job.scene.width * job.outputScale * scale),
+          Math.round(job.scene.height * job.outputScale * scale),
+        )
+        const context = canvas.getContext('2d')
+        if (!context) {
+          throw new Error('Unable to create an export canvas')
+        }
+        paintScene(context, job, tiles, scale)
+        blob = await canvas.convertToBlob({ type: job.mimeType, quality: job.quality })
+      } catch (error) {
+        lastError = error
+        continue
+      }
+      if (blob.type && blob.type !== job.mimeType) {
+        throw new Error(`This browser cannot encode ${job.mimeType}`)
+      }
+      scope.postMessage({ id, type: 'exported', blob, scale })
+      return
+    }
+    throw lastError ?? new Error('Export failed at all resolutions')
+  } finally {
+    closeTiles(tiles)
+    job.scene.overlays.forEach(({ bitmap }) => bitmap.close())
+    if (job.scene.frame?.fill.type === 'image') {
+      job.scene.frame.fill.bitmap.close()
+    }
+  }
+}
+
+scope.addEventListener('message', (event) => {
+  const request = event.data
+  if (request.type === 'tiles') {
+    pendingTiles.set(request.id, [...(pendingTiles.get(request.id) ?? []), ...request.tiles])
+    return
+  }
+  if (request.type === 'cancel') {
+    closeTiles(pendingTiles.get(request.id) ?? [])
+    pendingTiles.delete(request.id)
+    return
+  }
+  const task = request.type === 'decode' ? decode(request.id, request.file, request.maxWidth) : exportScene(request.id, request.job)
+  task.catch((error: unknown) => {
+    scope.postMessage({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Image worker failed',
+    })
+  })
+})
@@ -0,0 +1,188 @@
+// Minimal ZIP support for project files. Photos are already compressed, so entries are
+// written uncompressed ("stored"); reading also accepts deflated entries from other tools
+// where the browser offers DecompressionStream.
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50
+const LOCAL_HEADER_SIZE = 30
+const CENTRAL_HEADER_SIZE = 46
+const END_OF_DIRECTORY_SIZE = 22
+const MAX_COMMENT_SIZE = 0xffff
+const UTF8_NAMES_FLAG = 0x0800
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+// Without ZIP64 records, offsets and sizes must fit in 32 bits.
+const MAX_ZIP_BYTES = 0xffffffff
+
+export interface ZipEntry {
+  name: string
+  data: Blob
+}
+
+export interface ZipReadEntry {
+  name: string
+  crc32: number
+  read: () => Promise<Blob>
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n += 1) {
+    let c = n
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS timestamp as stored in ZIP headers.
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+})
+
+/** Packs the entries into an uncompressed ZIP archive without copying the file data. */
+export const writeZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(new Date())
+  const parts: BlobPart[] = []
+  const central: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(new Uint8Array(await entry.data.arrayBuffer()))
+    const size = entry.data.size
+
+    const local = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE))
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, UTF8_NAMES_FLAG, true)
+    local.setUint16(8, METHOD_STORED, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+    parts.push(local.buffer, name, entry.data)
+
+    const header = new DataView(new ArrayBuffer(CENTRAL_HEADER_SIZE))
+    header.setUint32(0, CENTRAL_HEADER_SIGNATURE, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 20, true)
+    header.setUint16(8, UTF8_NAMES_FLAG, true)
+    header.setUint16(10, METHOD_STORED, true)
+    header.setUint16(12, time, true)
+    header.setUint16(14, date, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, size, true)
+    header.setUint32(24, size, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true)
+    central.push(new Uint8Array(header.buffer), name)
+
+    offset += LOCAL_HEADER_SIZE + name.length + size
+    if (offset > MAX_ZIP_BYTES) {
+      throw new Error('The project is larger than 4 GB, which this file format cannot hold.')
+    }
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(END_OF_DIRECTORY_SIZE))
+  end.setUint32(0, END_OF_DIRECTORY_SIGNATURE, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' })
+}
+
+const inflate = async (data: Blob) => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read compressed ZIP entries.')
+  }
+  return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob()
+}
+
+/** Lists the entries of a ZIP archive; file data is only read when `read()` is called. */
+export const readZip = async (archive: Blob): Promise<ZipReadEntry[]> => {
+  const tailStart = Math.max(0, archive.size - END_OF_DIRECTORY_SIZE - MAX_COMMENT_SIZE)
+  const tail = new DataView(await archive.slice(tailStart).arrayBuffer())
+
+  let endOffset = -1
+  for (let i = tail.byteLength - END_OF_DIRECTORY_SIZE; i >= 0; i -= 1) {
+    if (tail.getUint32(i, true) === END_OF_DIRECTORY_SIGNATURE) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Not a ZIP archive.')
+  }
+
+  const entryCount = tail.getUint16(endOffset + 10, true)
+  const centralSize = tail.getUint32(endOffset + 12, true)
+  const centralOffset = tail.getUint32(endOffset + 16, true)
+  if (centralOffset + centralSize > archive.size) {
+    throw new Error('The archive is truncated.')
+  }
+
+  const directory = new DataView(await archive.slice(centralOffset, centralOffset + centralSize).arrayBuffer())
+  const decoder = new TextDecoder()
+  const entries: ZipReadEntry[] = []
+  let position = 0
+
+  for (let i = 0; i < entryCount; i += 1) {
+    if (position + CENTRAL_HEADER_SIZE > directory.byteLength || directory.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('The archive directory is damaged.')
+    }
+    const method = directory.getUint16(position + 10, true)
+    const crc = directory.getUint32(position + 16, true)
+    const compressedSize = directory.getUint32(position + 20, true)
+    const nameLength = directory.getUint16(position + 28, true)
+    const extraLength = directory.getUint16(position + 30, true)
+    const commentLength = directory.getUint16(position + 32, true)
+    const localOffset = directory.getUint32(position + 42, true)
+    const name = decoder.decode(
+      new Uint8Array(directory.buffer, position + CENTRAL_HEADER_SIZE, nameLength),
+    )
+    position += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength
+
+    if (method !== METHOD_STORED && method !== METHOD_DEFLATED) {
+      throw new Error(`“${name}” uses an unsupported ZIP compression method.`)
+    }
+
+    entries.push({
+      name,
+      crc32: crc,
+      read: async () => {
+        // The local header repeats the name and may carry a different extra field.
+        const local = new DataView(await archive.slice(localOffset, localOffset + LOCAL_HEADER_SIZE).arrayBuffer())
+        if (local.byteLength < LOCAL_HEADER_SIZE || local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+          throw new Error(`“${name}” is damaged.`)
+        }
+        const dataStart = localOffset + LOCAL_HEADER_SIZE + local.getUint16(26, true) + local.getUint16(28, true)
+        if (dataStart + compressedSize > archive.size) {
+          throw new Error(`“${name}” is truncated.`)
+        }
+        const data = archive.slice(dataStart, dataStart + compressedSize)
+        return method === METHOD_DEFLATED ? inflate(data) : data
+      },
+    })
+  }
+
+  return entries
+}
@@ -4,4 +4,6 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The image worker loads libheif as a separate chunk, which needs an ES module worker.
+  worker: { format: 'es' },
 })